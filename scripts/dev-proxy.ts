@@ -0,0 +1,87 @@
+/**
+ * 本地测试用的HTTP代理，支持CONNECT隧道和绝对地址转发
+ *
+ * 用法: npm run dev:proxy -- [端口] [用户名:密码]
+ * 与squid的默认配置一致，只允许CONNECT到443端口，用于验证普通http请求不会走隧道
+ */
+import http from 'http';
+import net from 'net';
+
+const port = Number(process.argv[2]) || 3128;
+const credentials = process.argv[3];
+const expectedAuthorization = credentials ? `Basic ${Buffer.from(credentials).toString('base64')}` : undefined;
+
+function isAuthorized(request: http.IncomingMessage): boolean {
+  return !expectedAuthorization || request.headers['proxy-authorization'] === expectedAuthorization;
+}
+
+const server = http.createServer((request, response) => {
+  const url = request.url || '';
+  if (!/^http:\/\//i.test(url)) {
+    console.log(`❌ 400 ${request.method} ${url}`);
+    response.writeHead(400).end('代理请求需要使用绝对地址\n');
+    return;
+  }
+  if (!isAuthorized(request)) {
+    console.log(`🔒 407 ${request.method} ${url}`);
+    response.writeHead(407, { 'proxy-authenticate': 'Basic realm="dev-proxy"' }).end();
+    return;
+  }
+
+  const target = new URL(url);
+  const headers = { ...request.headers };
+  delete headers['proxy-authorization'];
+  delete headers['proxy-connection'];
+
+  const upstream = http.request({
+    host: target.hostname.replace(/^\[|\]$/g, ''),
+    port: target.port || 80,
+    method: request.method,
+    path: `${target.pathname}${target.search}`,
+    headers
+  }, upstreamResponse => {
+    console.log(`➡️  ${upstreamResponse.statusCode} ${request.method} ${url}`);
+    response.writeHead(upstreamResponse.statusCode || 502, upstreamResponse.headers);
+    upstreamResponse.pipe(response);
+  });
+  upstream.on('error', error => {
+    console.log(`❌ 502 ${request.method} ${url} - ${error.message}`);
+    response.writeHead(502).end();
+  });
+  request.pipe(upstream);
+});
+
+server.on('connect', (request: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+  const target = request.url || '';
+  const separator = target.lastIndexOf(':');
+  const host = target.slice(0, separator).replace(/^\[|\]$/g, '');
+  const targetPort = Number(target.slice(separator + 1));
+
+  if (targetPort !== 443) {
+    console.log(`🚫 403 CONNECT ${target}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  if (!isAuthorized(request)) {
+    console.log(`🔒 407 CONNECT ${target}`);
+    socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="dev-proxy"\r\n\r\n');
+    return;
+  }
+
+  const upstream = net.connect(targetPort, host, () => {
+    console.log(`🔗 200 CONNECT ${target}`);
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', error => {
+    console.log(`❌ 502 CONNECT ${target} - ${error.message}`);
+    socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+  });
+  socket.on('error', () => upstream.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`🚀 测试代理已启动: http://${credentials ? `${credentials.split(':')[0]}:***@` : ''}127.0.0.1:${port}`);
+});
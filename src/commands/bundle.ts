@@ -0,0 +1,131 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import fs from 'fs-extra';
+import { createBundle, extractBundle } from '../utils/bundler';
+import { Inventory } from '../utils/inventory';
+import { formatBytes } from '../utils/fileUtils';
+
+interface BundleOptions {
+  directory?: string;
+  output?: string;
+  inventory?: string;
+}
+
+interface UnbundleOptions {
+  directory?: string;
+}
+
+export async function bundle(options: BundleOptions = {}): Promise<void> {
+  try {
+    const directory = path.resolve(options.directory || './packages');
+    const outputFile = path.resolve(options.output || `packages-${new Date().toISOString().slice(0, 10)}.tar`);
+
+    if (!await fs.pathExists(directory)) {
+      throw new Error(`目录不存在: ${directory}`);
+    }
+
+    const inventory = options.inventory ? await Inventory.load(options.inventory) : undefined;
+
+    console.log(chalk.blue(`📂 打包目录: ${directory}`));
+    if (inventory) {
+      console.log(chalk.blue(`📋 增量打包，离线端清单: ${inventory.size} 个版本`));
+    }
+    const startTime = Date.now();
+    const spinner = ora(inventory ? '正在对比离线端清单...' : '开始打包...').start();
+
+    const manifest = await createBundle(directory, outputFile, (progress) => {
+      spinner.text = `打包进度: ${progress.files} 个文件 | ${formatBytes(progress.bytes)}${progress.current ? ` | 当前: ${progress.current}` : ''}`;
+    }, { inventory });
+
+    spinner.succeed(chalk.green('打包完成'));
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(chalk.green(`✅ 共 ${manifest.totalFiles} 个文件，${formatBytes(manifest.totalSize)}`));
+    if (manifest.delta) {
+      console.log(chalk.gray(`⏭️  离线端已存在，未打包: ${manifest.delta.skippedVersions} 个版本`));
+    }
+    console.log(chalk.blue(`📦 输出文件: ${outputFile}`));
+    console.log(chalk.blue(`⏱️  总耗时: ${elapsed}s`));
+    console.log(chalk.gray(`   在目标环境中执行: tgz-box unbundle ${path.basename(outputFile)}`));
+  } catch (error) {
+    console.error(chalk.red('❌ 打包过程中发生错误:'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+export async function unbundle(bundleFile: string, options: UnbundleOptions = {}): Promise<void> {
+  try {
+    const bundlePath = path.resolve(bundleFile);
+    const targetDirectory = path.resolve(options.directory || './packages');
+
+    if (!await fs.pathExists(bundlePath)) {
+      throw new Error(`文件不存在: ${bundlePath}`);
+    }
+
+    console.log(chalk.blue(`📦 解压文件: ${bundlePath}`));
+    console.log(chalk.blue(`📂 目标目录: ${targetDirectory}`));
+    const spinner = ora('开始解压...').start();
+
+    const result = await extractBundle(bundlePath, targetDirectory, (progress) => {
+      spinner.text = `解压进度: ${progress.files} 个文件 | ${formatBytes(progress.bytes)}${progress.current ? ` | 当前: ${progress.current}` : ''}`;
+    });
+
+    spinner.stop();
+
+    console.log('\n' + '='.repeat(60));
+    console.log(chalk.blue.bold('📊 解压校验结果'));
+    console.log('='.repeat(60));
+    console.log(chalk.white(`已解压: ${result.extracted.length} 个文件`));
+
+    if (!result.manifest) {
+      console.log(chalk.red('❌ 未找到bundle清单，文件可能不完整或不是tgz-box生成的bundle'));
+      process.exit(1);
+    }
+
+    printFileList('缺失的文件', result.missing, chalk.red);
+    printFileList('校验失败的文件（已删除）', result.corrupted, chalk.red);
+    printFileList('清单之外的文件', result.unexpected, chalk.yellow);
+
+    if (result.missing.length > 0 || result.corrupted.length > 0) {
+      console.log(chalk.red.bold('\n❌ 解压未通过校验，请重新传输bundle文件'));
+      console.log('='.repeat(60));
+      process.exit(1);
+    }
+
+    console.log(chalk.green.bold(`🎉 全部 ${result.manifest.totalFiles} 个文件校验通过`));
+    console.log('='.repeat(60));
+  } catch (error) {
+    console.error(chalk.red('❌ 解压过程中发生错误:'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+function printFileList(title: string, files: string[], color: chalk.Chalk): void {
+  if (files.length === 0) {
+    return;
+  }
+  console.log(color(`\n${title} (${files.length}):`));
+  files.forEach((file, index) => console.log(color(`  ${index + 1}. ${file}`)));
+}
+
+// 导出命令配置
+export function setupBundleCommands(program: Command): void {
+  program
+    .command('bundle')
+    .description('将packages目录打包为单个tar文件，便于跨网闸传输')
+    .option('-d, --directory <path>', '指定packages目录路径', './packages')
+    .option('-o, --output <file>', '输出的tar文件路径')
+    .option('--inventory <file>', '离线端导出的清单文件，只打包离线端缺失的版本')
+    .action(bundle);
+
+  program
+    .command('unbundle')
+    .description('解压bundle文件并校验每个文件的完整性')
+    .argument('<file>', 'bundle文件路径')
+    .option('-d, --directory <path>', '解压到的packages目录路径', './packages')
+    .action(unbundle);
+}
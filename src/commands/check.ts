@@ -2,12 +2,28 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { checkTgzFiles, checkSinglePackage, printCheckSummary } from '../utils/tgzChecker';
+import { applyRuntimeConfig, getVersionPolicyConfig, loadConfig } from '../utils/config';
+import { describeVersionPolicy, normalizeVersionPolicy } from '../utils/versionPolicy';
+import { loadNpmrc } from '../utils/npmrc';
+import { RegistryResolver } from '../utils/registry';
+import { resolveNetworkSettings } from '../utils/proxy';
+import { maskSecrets } from '../utils/auth';
+import { collectList } from '../utils/cli';
+import { formatPlatform, parsePlatforms } from '../utils/platform';
+import { DownloadPlan, reportDownloadPlan } from '../utils/downloadPlan';
 import path from 'path';
 
 interface CheckOptions {
   fix?: boolean;
   package?: string;
   directory?: string;
+  cwd?: string;
+  registry?: string;
+  include?: string[];
+  exclude?: string[];
+  platform?: string[];
+  dryRun?: boolean;
+  planOutput?: string;
 }
 
 export async function check(options: CheckOptions = {}): Promise<void> {
@@ -15,6 +31,13 @@ export async function check(options: CheckOptions = {}): Promise<void> {
     console.log(chalk.cyan('🔍 TGZ文件检查工具'));
     console.log(chalk.gray('用于检查packages目录中的npm包完整性\n'));
     
+    if (options.dryRun && !options.fix) {
+      throw new Error('--dry-run 需要与 --fix 同时使用');
+    }
+    if (options.planOutput && !options.dryRun) {
+      throw new Error('--plan-output 需要与 --dry-run 同时使用');
+    }
+    
     let targetDirectory = options.directory || process.cwd();
     
     // 如果没有指定目录，询问用户
@@ -39,13 +62,30 @@ export async function check(options: CheckOptions = {}): Promise<void> {
     // 转换为绝对路径
     targetDirectory = path.resolve(targetDirectory);
     
+    // 配置文件和.npmrc从项目目录加载，默认为packages目录的上级目录（install的默认输出位置）
+    const projectDir = path.resolve(options.cwd || path.dirname(targetDirectory));
+    const { config, files } = await loadConfig(projectDir, {
+      registry: options.registry,
+      filters: { include: options.include, exclude: options.exclude }
+    });
+    files.forEach(file => console.log(chalk.gray(`⚙️  已加载配置文件: ${file}`)));
+    const platforms = parsePlatforms(options.platform);
+    if (platforms.length > 0) {
+      console.log(chalk.gray(`🖥️  目标平台: ${platforms.map(formatPlatform).join(', ')}`));
+    }
+    const npmrc = await loadNpmrc(projectDir);
+    const registryResolver = RegistryResolver.fromNpmrc(npmrc, config.registry, config.mirrors);
+    applyRuntimeConfig(config, { registryResolver, network: await resolveNetworkSettings(npmrc, config.network) });
+    
     console.log(chalk.blue(`📂 检查目录: ${targetDirectory}`));
+    // dry-run：版本策略选出的版本只加入下载计划，不写入检查目录
+    const plan = options.dryRun ? new DownloadPlan(targetDirectory) : undefined;
     
     if (options.package) {
       // 检查单个包
       console.log(chalk.blue(`📦 检查包: ${options.package}`));
       
-      const result = await checkSinglePackage(options.package, targetDirectory, options.fix);
+      const result = await checkSinglePackage(options.package, targetDirectory, options.fix, { config, registryResolver, platforms, plan });
       
       if (result.message) {
         switch (result.code) {
@@ -64,31 +104,38 @@ export async function check(options: CheckOptions = {}): Promise<void> {
       }
     } else {
       // 检查所有包
-      const summary = await checkTgzFiles(targetDirectory, options.fix);
+      const summary = await checkTgzFiles(targetDirectory, options.fix, { config, registryResolver, platforms, plan });
       printCheckSummary(summary);
       
-      // 如果未启用自动下载，询问是否要下载major版本
-      if (!options.fix) {
+      // 如果未启用自动下载，询问是否按版本策略下载额外版本；全局locked-only且没有按包名的规则时不需要询问
+      const policyConfig = getVersionPolicyConfig(config);
+      const hasExtraVersions = normalizeVersionPolicy(policyConfig.default).policy !== 'locked-only'
+        || Object.keys(policyConfig.packages).length > 0;
+      if (!options.fix && hasExtraVersions) {
         const { shouldDownload } = await inquirer.prompt([
           {
             type: 'confirm',
             name: 'shouldDownload',
-            message: '是否要下载每个包的major版本最新版本？',
+            message: `是否按版本策略（${describeVersionPolicy(policyConfig.default)}）下载额外的版本？`,
             default: false
           }
         ]);
         
         if (shouldDownload) {
-          console.log(chalk.blue('\n开始下载major版本...'));
-          await checkTgzFiles(targetDirectory, true);
+          console.log(chalk.blue('\n开始按版本策略下载...'));
+          await checkTgzFiles(targetDirectory, true, { config, registryResolver, platforms });
           console.log(chalk.green('✅ 下载完成'));
         }
       }
     }
     
+    if (plan) {
+      await reportDownloadPlan(plan, options.planOutput);
+    }
+    
   } catch (error) {
     console.error(chalk.red('❌ 检查过程中发生错误:'));
-    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    console.error(chalk.red(maskSecrets(error instanceof Error ? error.message : String(error))));
     process.exit(1);
   }
 }
@@ -102,5 +149,12 @@ export function setupCheckCommand(program: Command): void {
     .option('-f, --fix', '自动修复package.json中的版本号')
     .option('-p, --package <name>', '检查指定的包')
     .option('-d, --directory <path>', '指定要检查的目录路径')
+    .option('--cwd <path>', '加载配置文件和.npmrc的项目目录（默认为检查目录的上级目录）')
+    .option('--registry <url>', '获取版本信息使用的默认registry')
+    .option('--include <glob>', '只处理包名匹配的包（覆盖配置文件的filters.include，可多次指定）', collectList)
+    .option('--exclude <glob>', '跳过包名匹配的包（覆盖配置文件的filters.exclude，可多次指定）', collectList)
+    .option('--platform <list>', '目标平台，如 linux-x64,linux-arm64-musl，不下载不支持任何目标平台的额外版本', collectList)
+    .option('--dry-run', '与 --fix 一起使用，只输出按版本策略需要下载的版本和预计大小，不写入检查目录')
+    .option('--plan-output <file>', '将下载计划导出为JSON文件（需要 --dry-run）')
     .action(check);
 }
\ No newline at end of file
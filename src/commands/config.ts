@@ -0,0 +1,77 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { loadConfig } from '../utils/config';
+import { DEFAULT_PACKAGES_DIR } from '../utils/constants';
+import { loadNpmrc } from '../utils/npmrc';
+import { RegistryResolver } from '../utils/registry';
+import { maskSecrets } from '../utils/auth';
+import { resolveNetworkSettings } from '../utils/proxy';
+
+interface ConfigCommandOptions {
+  cwd?: string;
+  json?: boolean;
+  registry?: string;
+}
+
+export async function showConfig(options: ConfigCommandOptions = {}): Promise<void> {
+  try {
+    const projectDir = path.resolve(options.cwd || process.cwd());
+    const { config, files } = await loadConfig(projectDir, { registry: options.registry });
+    const npmrc = await loadNpmrc(projectDir);
+    const registryResolver = RegistryResolver.fromNpmrc(npmrc, config.registry, config.mirrors);
+    const network = await resolveNetworkSettings(npmrc, config.network);
+
+    // 未配置的项显示实际使用的默认值
+    const effectiveConfig = {
+      ...config,
+      registry: registryResolver.defaultRegistry,
+      scopeRegistries: registryResolver.getScopeRegistries(),
+      credentials: registryResolver.credentials.describe(),
+      outDir: config.outDir || path.join(projectDir, DEFAULT_PACKAGES_DIR),
+      network: {
+        httpProxy: network.httpProxy && maskSecrets(network.httpProxy),
+        httpsProxy: network.httpsProxy && maskSecrets(network.httpsProxy),
+        noProxy: network.noProxy,
+        // 只显示证书数量
+        ca: network.ca.length,
+        strictSSL: network.strictSSL
+      }
+    };
+
+    if (options.json) {
+      console.log(JSON.stringify(effectiveConfig, null, 2));
+      return;
+    }
+
+    console.log(chalk.blue(`📂 项目目录: ${projectDir}`));
+    if (files.length > 0) {
+      console.log(chalk.blue('⚙️  配置文件（优先级从低到高）:'));
+      files.forEach(file => console.log(chalk.gray(`   ${file}`)));
+    } else {
+      console.log(chalk.gray('⚙️  未找到配置文件，使用默认配置'));
+    }
+    if (npmrc.files.length > 0) {
+      console.log(chalk.blue('📄 .npmrc（优先级从低到高）:'));
+      npmrc.files.forEach(file => console.log(chalk.gray(`   ${file}`)));
+    }
+
+    console.log(chalk.blue('\n📋 生效的配置:'));
+    console.log(JSON.stringify(effectiveConfig, null, 2));
+  } catch (error) {
+    console.error(chalk.red('❌ 读取配置失败:'));
+    console.error(chalk.red(maskSecrets(error instanceof Error ? error.message : String(error))));
+    process.exit(1);
+  }
+}
+
+// 导出命令配置
+export function setupConfigCommand(program: Command): void {
+  program
+    .command('config')
+    .description('显示合并配置文件后生效的配置')
+    .option('--cwd <path>', '项目目录（默认为当前目录）')
+    .option('--registry <url>', '默认registry地址')
+    .option('--json', '只输出JSON格式的配置')
+    .action(showConfig);
+}
@@ -1,20 +1,33 @@
 import ora from 'ora';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { InstallOptions, PackageItem } from '../types';
-import { checkFilesExistence, readLockFile, cleanupTempDirectory } from '../utils/fileUtils';
-import { parseLockFile } from '../utils/packageParser';
-import { PackageDownloader } from '../utils/downloader';
+import { InstallOptions, LockData, PackageItem } from '../types';
+import { checkFilesExistence, getProjectFiles, readTextFile, cleanupTempDirectory } from '../utils/fileUtils';
+import { applyRewriter, detectLockFileType, parseLockFileContent } from '../utils/packageParser';
+import { PackageDownloader, DownloaderOptions } from '../utils/downloader';
 import { clearCache } from '../npm/cache';
-import { generateLockFileFromPackage, generateLockFileFromPackageName } from '../npm/npmUtils';
-import { checkTgzFiles } from '../utils/tgzChecker';
+import { ResolvedPeer, generateLockFileFromPackage, generateLockFileFromPackageName, resolvePeerDependencies } from '../npm/npmUtils';
+import { checkTgzFiles, planPolicyVersions, TgzCheckOptions } from '../utils/tgzChecker';
+import { Inventory } from '../utils/inventory';
 import { failedPackageManager } from '../utils/failedPackageManager';
+import { applyRuntimeConfig, loadConfig, TgzBoxConfig } from '../utils/config';
+import { matchesFilters } from '../utils/glob';
+import { loadNpmrc } from '../utils/npmrc';
+import { RegistryResolver } from '../utils/registry';
+import { NetworkSettings, resolveNetworkSettings } from '../utils/proxy';
+import { UrlRewriter, rewriteOutputLockfile } from '../utils/rewrite';
+import { maskSecrets } from '../utils/auth';
+import { PACKAGE_SOURCE_LABELS, groupBySource, resolveLocalSources } from '../utils/packageSource';
+import { getWorkspaceClosure, listWorkspaces, readProjectDescriptors } from '../utils/workspaces';
+import { OmitType, getRecordedOmitTypes, isOmitted, parseOmitTypes } from '../utils/dependencyTypes';
+import { MergedPackages, ProjectPackages, mergeProjectPackages, readProjectList } from '../utils/projects';
+import { TargetPlatform, fillPlatformConstraints, formatPlatform, isSkippedForPlatforms, parsePlatforms, printPlatformSkipReport } from '../utils/platform';
+import { DownloadPlan, reportDownloadPlan } from '../utils/downloadPlan';
+import { PackageManifest } from '../utils/packageManifest';
+import { LayoutConfig, NestedView, StorageLayout, getPackageKey, resolveLayout } from '../utils/storageLayout';
 import path from 'path';
-import {
-  PACKAGE_JSON_PATH,
-  PACKAGE_LOCK_PATH,
-  TEMP_DIR
-} from '../utils/constants';
+import fs from 'fs-extra';
+import { DEFAULT_PACKAGES_DIR, PACKAGE_JSON_FILE, TEMP_DIR } from '../utils/constants';
 
 export async function install(packageName?: string, options: InstallOptions = {}) {
 
@@ -24,12 +37,99 @@ export async function install(packageName?: string, options: InstallOptions = {}
       await clearCache();
     }
 
-    // 2. 确定下载模式并解析依赖
-    const lockFilePath = await determineLockFile(options, packageName);
-    const lockData = await readLockFile(lockFilePath);
-    
-    // 3. 解析依赖（启用进度提示）
-    const packages = parseLockFile(lockData, true);
+    // 离线端清单，只下载离线端缺失的版本
+    let inventory: Inventory | undefined;
+    if (options.inventory) {
+      inventory = await Inventory.load(options.inventory);
+      console.log(chalk.blue(`📋 已加载离线端清单: ${inventory.size} 个版本，清单中已有的版本将跳过下载`));
+    }
+
+    // 项目目录和输出目录，输出目录默认为项目目录下的packages
+    const projectDir = path.resolve(options.cwd || process.cwd());
+    if (!await fs.pathExists(projectDir)) {
+      throw new Error(`项目目录不存在: ${projectDir}`);
+    }
+
+    // 加载配置文件，命令行参数优先
+    const { config, files } = await loadConfig(projectDir, {
+      registry: options.registry,
+      outDir: options.out ? path.resolve(options.out) : undefined,
+      filters: { include: options.include, exclude: options.exclude },
+      layout: { type: options.layout as StorageLayout, nested: options.nested as NestedView },
+      concurrency: options.concurrency ? { download: parseInt(options.concurrency, 10) } : undefined
+    });
+    files.forEach(file => console.log(chalk.gray(`⚙️  已加载配置文件: ${file}`)));
+    const outputDir = config.outDir || path.join(projectDir, DEFAULT_PACKAGES_DIR);
+
+    // 按.npmrc和配置确定每个scope使用的registry及其凭据
+    // 代理和证书设置同样来自.npmrc、配置文件和环境变量
+    const npmrc = await loadNpmrc(projectDir);
+    const registryResolver = RegistryResolver.fromNpmrc(npmrc, config.registry, config.mirrors);
+    const network = await resolveNetworkSettings(npmrc, config.network);
+    applyRuntimeConfig(config, { registryResolver, network });
+    console.log(chalk.gray(`🌐 registry: ${registryResolver.defaultRegistry}`));
+    if (registryResolver.mirrors.length > 0) {
+      console.log(chalk.gray(`🪞 备用镜像: ${registryResolver.mirrors.join(' -> ')}`));
+    }
+    printNetworkSettings(network);
+    printLayout(await resolveLayout(outputDir, await PackageManifest.load(outputDir), config.layout));
+
+    if (options.planOutput && !options.dryRun) {
+      throw new Error('--plan-output 需要与 --dry-run 同时使用');
+    }
+    const platforms = parsePlatforms(options.platform);
+    if (platforms.length > 0) {
+      console.log(chalk.gray(`🖥️  目标平台: ${platforms.map(formatPlatform).join(', ')}`));
+    }
+
+    // 2. 确定下载模式并解析依赖，指定了多个项目时合并所有项目的依赖
+    const projectPaths = await getProjectPaths(options);
+    const context: ParseContext = {
+      options,
+      config,
+      registryResolver,
+      outputDir,
+      omitTypes: parseOmitTypes(options.omit),
+      omitted: []
+    };
+    let allPackages: PackageItem[];
+    let batch: MergedPackages | undefined;
+
+    if (projectPaths.length > 0) {
+      assertBatchOptions(packageName, options);
+      batch = await loadProjects(projectPaths, context);
+      allPackages = batch.packages;
+    } else {
+      const lockFilePath = await determineLockFile(options, projectDir, packageName, context);
+      
+      // 3. 解析依赖（启用进度提示），下载之前按规则改写resolved地址
+      const lockContent = await readTextFile(lockFilePath);
+      allPackages = parseProject(lockFilePath, lockContent, context);
+
+      // 输出离线端使用的lock文件，地址按反向规则改写
+      if (options.outputLockfile && options.dryRun) {
+        console.log(chalk.gray('📝 dry-run模式不生成 --output-lockfile 指定的lock文件'));
+      } else if (options.outputLockfile) {
+        const outputLockfile = path.resolve(options.outputLockfile);
+        const outputContent = rewriteOutputLockfile(lockContent, config.rewrites);
+        await fs.outputFile(outputLockfile, outputContent);
+        console.log(chalk.gray(`📝 已生成lock文件: ${outputLockfile}`));
+        if (outputContent === lockContent) {
+          console.log(chalk.yellow('⚠️  输出的lock文件与原lock文件相同：没有地址被改写，如需指向离线端registry请配置 rewrites.reverse'));
+        }
+      }
+    }
+    printSourceReport(allPackages);
+
+    // link依赖指向项目内的目录，离线端由项目自身提供，不需要下载
+    const downloadable = allPackages.filter(pkg => pkg.source !== 'link');
+    const filtered = downloadable.filter(pkg => matchesFilters(pkg.name, config.filters));
+
+    if (filtered.length < downloadable.length) {
+      console.log(chalk.gray(`🔍 根据过滤规则跳过 ${downloadable.length - filtered.length} 个包`));
+    }
+
+    const packages = await skipUnsupportedPlatforms(filtered, platforms, registryResolver, config.concurrency.metadata);
     const totalCount = packages.length;
 
     if (totalCount === 0) {
@@ -37,16 +137,40 @@ export async function install(packageName?: string, options: InstallOptions = {}
       return;
     }
 
+    // 只被跳过的依赖类型使用的包同样不下载额外版本
+    const keptNames = new Set(allPackages.map(pkg => pkg.name));
+    const omittedPackages = new Set(context.omitted.map(pkg => pkg.name).filter(name => !keptNames.has(name)));
+
     // 4. 开始智能下载（跳过失败包，最后重试）
+    // 来源项目记录到packages/manifest.json中，批量下载时记录每个包的所有来源项目
+    const source = batch ? undefined : packageName || projectDir;
+    const checkOptions: TgzCheckOptions = { inventory, source, config, registryResolver, omittedPackages, platforms };
+
+    // dry-run：只计算并输出下载计划，不写入输出目录
+    if (options.dryRun) {
+      await planDownloads(packages, outputDir, config.majorVersions.enabled, checkOptions, options.planOutput);
+      return;
+    }
+
     console.log('\n' + chalk.blue(`开始下载 ${totalCount} 个依赖包...`));
-    await downloadPackagesWithRetry(packages);
+    await downloadPackagesWithRetry(packages, config, {
+      inventory,
+      source,
+      packageSources: batch?.sources,
+      outputDir,
+      registryResolver,
+      layout: config.layout
+    });
+    if (batch) {
+      printProjectCoverage(projectPaths, packages, batch.sources);
+    }
 
     // 5. 自动检查
     console.log('\n' + chalk.blue('开始检查依赖完整性和版本匹配...'));
-    await performAutoCheck();
+    await performAutoCheck(outputDir, config.majorVersions.enabled, checkOptions);
 
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorMessage = maskSecrets(error instanceof Error ? error.message : String(error));
     console.error(chalk.red('操作失败:'), errorMessage);
     process.exit(1);
   } finally {
@@ -56,17 +180,289 @@ export async function install(packageName?: string, options: InstallOptions = {}
   }
 }
 
-async function determineLockFile(options: InstallOptions, packageName?: string): Promise<string> {
+function printLayout(layout: LayoutConfig): void {
+  if (layout.type !== 'nested') {
+    const nested = layout.nested === 'none' ? '' : `，嵌套视图: ${layout.nested}`;
+    console.log(chalk.gray(`🗂️  存储布局: ${layout.type}${nested}`));
+  }
+}
+
+function printNetworkSettings(network: NetworkSettings): void {
+  if (network.httpsProxy || network.httpProxy) {
+    const proxy = maskSecrets(network.httpsProxy || network.httpProxy || '');
+    const noProxy = network.noProxy.length > 0 ? ` (不使用代理: ${network.noProxy.join(', ')})` : '';
+    console.log(chalk.gray(`🛰️  代理: ${proxy}${noProxy}`));
+  }
+  if (network.ca.length > 0) {
+    console.log(chalk.gray(`🔐 额外信任 ${network.ca.length} 个CA证书`));
+  }
+  if (!network.strictSSL) {
+    console.log(chalk.yellow('⚠️  strict-ssl已关闭，不校验registry的TLS证书'));
+  }
+}
+
+interface ParseContext {
+  options: InstallOptions;
+  config: TgzBoxConfig;
+  registryResolver: RegistryResolver;
+  outputDir: string;
+  omitTypes: Set<OmitType>;
+  // 按 --omit 跳过的包，所有项目共用
+  omitted: PackageItem[];
+}
+
+/**
+ * 解析单个项目的lock文件：改写地址、本地依赖转为绝对路径，并应用workspace和 --omit 选项
+ */
+function parseProject(lockFilePath: string, lockContent: string, context: ParseContext): PackageItem[] {
+  const packages = resolveLocalSources(
+    loadPackages(lockContent, context.registryResolver, new UrlRewriter(context.config.rewrites.rules), getProjectDescriptors(lockFilePath, lockContent)),
+    path.dirname(lockFilePath)
+  );
+  const lockData = readNpmLockData(lockContent);
+  assertOutputOutsideWorkspaces(lockData, path.dirname(lockFilePath), context.outputDir);
+  const result = applyWorkspaceOptions(packages, lockData, context.options);
+
+  if (context.omitTypes.size === 0) {
+    return result;
+  }
+  const recorded = getRecordedOmitTypes(lockContent);
+  const unrecorded = Array.from(context.omitTypes).filter(type => !recorded.includes(type));
+  if (unrecorded.length > 0) {
+    console.log(chalk.yellow(`⚠️  ${lockFilePath} 没有记录 ${unrecorded.join('、')} 依赖标记，--omit ${unrecorded.join(',')} 对其不生效`));
+  }
+  const kept = result.filter(pkg => !isOmitted(pkg, context.omitTypes));
+  const omitted = result.filter(pkg => isOmitted(pkg, context.omitTypes));
+  context.omitted.push(...omitted);
+  console.log(chalk.gray(`⏭️  根据 --omit ${Array.from(context.omitTypes).join(',')} 跳过 ${omitted.length} 个包`));
+  return kept;
+}
+
+/**
+ * 按lock文件中的版本和版本策略选出的额外版本生成下载计划
+ */
+async function planDownloads(packages: PackageItem[], outputDir: string, downloadMajorVersions: boolean, checkOptions: TgzCheckOptions, planOutput?: string): Promise<void> {
+  const plan = new DownloadPlan(outputDir, checkOptions.inventory);
+  for (const pkg of packages) {
+    await plan.add(pkg, 'lock');
+  }
+  if (downloadMajorVersions) {
+    const errors = await planPolicyVersions(outputDir, packages, { ...checkOptions, plan });
+    errors.forEach(error => console.log(chalk.yellow(`⚠️  ${maskSecrets(error)}`)));
+  }
+  await reportDownloadPlan(plan, planOutput);
+}
+
+/**
+ * 按 --platform 跳过不支持任何目标平台的可选依赖，并统计节省的大小
+ * lock文件中没有平台信息的可选依赖先从registry补充
+ */
+async function skipUnsupportedPlatforms(
+  packages: PackageItem[],
+  platforms: TargetPlatform[],
+  registryResolver: RegistryResolver,
+  concurrency: number
+): Promise<PackageItem[]> {
+  if (platforms.length === 0) {
+    return packages;
+  }
+  const candidates = await fillPlatformConstraints(packages, registryResolver, concurrency);
+  const skipped = candidates.filter(pkg => isSkippedForPlatforms(pkg, platforms));
+  await printPlatformSkipReport(skipped, platforms, '可选包');
+  return candidates.filter(pkg => !skipped.includes(pkg));
+}
+
+/**
+ * 合并 --project 和 --projects 列表文件中的项目，去掉重复的路径
+ */
+async function getProjectPaths(options: InstallOptions): Promise<string[]> {
+  const projectPaths = (options.project || []).map(project => path.resolve(project));
+  if (options.projects) {
+    projectPaths.push(...await readProjectList(options.projects));
+  }
+  return Array.from(new Set(projectPaths));
+}
+
+function assertBatchOptions(packageName: string | undefined, options: InstallOptions): void {
+  const conflicting = [
+    packageName && '包名',
+    options.lockfile && '--lockfile',
+    options.outputLockfile && '--output-lockfile',
+    options.workspace && '--workspace'
+  ].filter(Boolean);
+  if (conflicting.length > 0) {
+    throw new Error(`${conflicting.join('、')} 不能与 --project/--projects 同时使用`);
+  }
+}
+
+/**
+ * 依次解析每个项目的lock文件，合并后按 name@version 和integrity去重
+ */
+async function loadProjects(projectPaths: string[], context: ParseContext): Promise<MergedPackages> {
+  const projects: ProjectPackages[] = [];
+  for (const projectPath of projectPaths) {
+    console.log(chalk.blue(`\n📁 项目: ${projectPath}`));
+    const lockFilePath = await determineProjectLockFile(projectPath, context);
+    const lockContent = await readTextFile(lockFilePath);
+    projects.push({
+      project: projectPath,
+      packages: parseProject(lockFilePath, lockContent, context)
+    });
+  }
+
+  const merged = mergeProjectPackages(projects);
+  const total = projects.reduce((sum, project) => sum + project.packages.length, 0);
+  console.log(chalk.blue(`\n🔗 合并 ${projects.length} 个项目的 ${total} 个依赖，去重后共 ${merged.packages.length} 个`));
+  merged.conflicts.forEach(conflict => {
+    console.log(chalk.yellow(`⚠️  ${conflict.key} 的integrity在 ${conflict.project} 中与 ${conflict.kept} 不一致，${conflict.project} 中的版本单独保存到 ${conflict.variant}/`));
+  });
+  return merged;
+}
+
+/**
+ * 项目可以是目录（自动选择lock文件）或lock文件/package.json路径
+ * 批量模式下不提示输入包名，缺少依赖文件的项目直接报错
+ */
+async function determineProjectLockFile(projectPath: string, context: ParseContext): Promise<string> {
+  const stat = await fs.stat(projectPath).catch(() => null);
+  if (!stat) {
+    throw new Error(`项目不存在: ${projectPath}`);
+  }
+  if (stat.isFile()) {
+    return determineLockFile({ ...context.options, lockfile: projectPath }, path.dirname(projectPath), undefined, context);
+  }
+
+  const existence = checkFilesExistence(projectPath);
+  if (!Object.values(existence).some(Boolean)) {
+    throw new Error(`项目中没有package.json或lock文件: ${projectPath}`);
+  }
+  return determineLockFile({ ...context.options, lockfile: undefined }, projectPath, undefined, context);
+}
+
+/**
+ * 输出每个项目的依赖在共享输出目录中的覆盖情况
+ */
+function printProjectCoverage(projectPaths: string[], packages: PackageItem[], sources: Map<string, string[]>): void {
+  console.log(chalk.blue.bold('\n📊 项目覆盖情况'));
+  projectPaths.forEach(project => {
+    const projectPackages = packages.filter(pkg => sources.get(getPackageKey(pkg))?.includes(project));
+    const failed = projectPackages.filter(pkg => failedPackageManager.isPackageFailed(pkg)).length;
+    const shared = projectPackages.filter(pkg => (sources.get(getPackageKey(pkg))?.length || 0) > 1).length;
+    const covered = projectPackages.length - failed;
+    const percentage = projectPackages.length > 0 ? ((covered / projectPackages.length) * 100).toFixed(1) : '100.0';
+    const color = failed > 0 ? chalk.yellow : chalk.green;
+    console.log(color(`  ${project}: ${covered}/${projectPackages.length} (${percentage}%)，与其他项目共享 ${shared} 个`));
+  });
+}
+
+/**
+ * Yarn v1的lock文件不记录项目自身的依赖，从lock文件旁的package.json及其workspace中读取
+ */
+function getProjectDescriptors(lockFilePath: string, lockContent: string): string[] {
+  return detectLockFileType(lockContent) === 'yarn-classic' ? readProjectDescriptors(path.dirname(lockFilePath)) : [];
+}
+
+function readNpmLockData(lockContent: string): LockData | undefined {
+  return detectLockFileType(lockContent) === 'npm' ? JSON.parse(lockContent) : undefined;
+}
+
+/**
+ * 输出目录包含workspace目录时，检查和major版本下载会把workspace的package.json当作包处理并覆盖
+ * 常见于默认输出目录packages与workspace目录同名的monorepo
+ */
+function assertOutputOutsideWorkspaces(lockData: LockData | undefined, lockDir: string, outputDir: string): void {
+  const overlapping = listWorkspaces(lockData || {}).filter(workspace => {
+    const relative = path.relative(outputDir, path.resolve(lockDir, workspace.path));
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+  if (overlapping.length > 0) {
+    throw new Error(`输出目录 ${outputDir} 包含workspace目录（${overlapping.map(item => item.path).join(', ')}），请使用 --out 或配置文件的outDir指定其他目录`);
+  }
+}
+
+/**
+ * 按 --workspace 只保留指定workspace的依赖闭包，按 --pack-workspaces 将链接的workspace包改为打包
+ */
+function applyWorkspaceOptions(packages: PackageItem[], lockData: LockData | undefined, options: InstallOptions): PackageItem[] {
+  let result = packages;
+
+  if (options.workspace) {
+    if (!lockData?.packages) {
+      throw new Error('--workspace 只支持lockfileVersion 2/3的package-lock.json');
+    }
+    const closure = getWorkspaceClosure(lockData, options.workspace);
+    result = result.filter(pkg => closure.has(`${pkg.name}@${pkg.version}`));
+    console.log(chalk.gray(`🧩 workspace ${options.workspace} 的依赖闭包共 ${result.length} 个包`));
+  }
+
+  if (options.packWorkspaces) {
+    result = result.map(pkg => pkg.source === 'link'
+      ? { ...pkg, resolved: pkg.resolved.replace(/^link:/, 'file:'), source: 'file' as const }
+      : pkg);
+  }
+
+  return result;
+}
+
+/**
+ * 按来源输出依赖统计，非registry依赖逐个列出
+ */
+function printSourceReport(packages: PackageItem[]): void {
+  const groups = groupBySource(packages);
+  if (groups.size === 0 || (groups.size === 1 && groups.has('registry'))) {
+    return;
+  }
+
+  console.log(chalk.blue('\n📦 依赖来源统计:'));
+  groups.forEach((items, source) => {
+    console.log(chalk.gray(`  ${PACKAGE_SOURCE_LABELS[source]}: ${items.length} 个`));
+    if (source !== 'registry') {
+      items.forEach(pkg => {
+        const version = pkg.version ? `@${pkg.version}` : '';
+        console.log(chalk.gray(`    - ${pkg.name}${version} (${maskSecrets(pkg.resolved)})`));
+      });
+    }
+  });
+}
+
+async function determineLockFile(options: InstallOptions, projectDir: string, packageName: string | undefined, context: ParseContext): Promise<string> {
+  const registry = context.config.registry;
+
   // 如果指定了包名，生成临时lock文件
   if (packageName) {
     console.log(chalk.blue(`准备下载指定包: ${packageName}`));
-    return await generateLockFileFromPackageName(packageName);
+    return await generatePackageLockFile(packageName, context);
   }
 
-  const { hasPackageJson, hasPackageLock } = checkFilesExistence();
+  // 显式指定lock文件路径
+  if (options.lockfile) {
+    const lockFilePath = path.resolve(options.lockfile);
+    if (!await fs.pathExists(lockFilePath)) {
+      throw new Error(`未找到lock文件: ${lockFilePath}`);
+    }
+    console.log(chalk.blue(`正在解析 ${lockFilePath}...`));
+    if (path.basename(lockFilePath) === PACKAGE_JSON_FILE) {
+      return await generateLockFileFromPackage(lockFilePath, { registry });
+    }
+    return lockFilePath;
+  }
+
+  const files = getProjectFiles(projectDir);
+  const { hasPackageJson, hasPackageLock, hasYarnLock, hasPnpmLock, hasBunLock } = checkFilesExistence(projectDir);
+
+  // 显式指定lock文件类型
+  if (options.yarn || options.pnpm) {
+    const exists = options.yarn ? hasYarnLock : hasPnpmLock;
+    const lockFilePath = options.yarn ? files.yarnLock : files.pnpmLock;
+    if (!exists) {
+      throw new Error(`未找到${path.basename(lockFilePath)}`);
+    }
+    console.log(chalk.blue(`正在解析 ${path.basename(lockFilePath)}...`));
+    return lockFilePath;
+  }
 
-  // 如果两个文件都不存在，提示用户输入
-  if (!hasPackageJson && !hasPackageLock) {
+  // 如果配置文件都不存在，提示用户输入
+  if (!hasPackageJson && !hasPackageLock && !hasYarnLock && !hasPnpmLock && !hasBunLock) {
     const { inputPackageName } = await inquirer.prompt([
       {
         type: 'input',
@@ -76,25 +472,89 @@ async function determineLockFile(options: InstallOptions, packageName?: string):
       }
     ]);
     
-    return await generateLockFileFromPackageName(inputPackageName.trim());
+    return await generatePackageLockFile(inputPackageName.trim(), context);
   }
 
   // 优先级处理
   if (hasPackageLock && !options.forcePackage) {
     console.log(chalk.blue('正在解析 package-lock.json...'));
-    return PACKAGE_LOCK_PATH;
+    return files.packageLock;
+  }
+  
+  // yarn.lock、pnpm-lock.yaml或bun.lock是唯一的lock文件时自动使用
+  const otherLockFiles = [
+    hasYarnLock && files.yarnLock,
+    hasPnpmLock && files.pnpmLock,
+    hasBunLock && files.bunLock
+  ].filter((lockFilePath): lockFilePath is string => Boolean(lockFilePath));
+  
+  if (!hasPackageLock && otherLockFiles.length === 1 && !options.package && !options.forcePackage) {
+    console.log(chalk.blue(`正在解析 ${path.basename(otherLockFiles[0])}...`));
+    return otherLockFiles[0];
   }
   
   if (hasPackageJson && (options.package || options.forcePackage || !hasPackageLock)) {
     console.log(chalk.blue('正在解析 package.json...'));
-    return await generateLockFileFromPackage(PACKAGE_JSON_PATH);
+    return await generateLockFileFromPackage(files.packageJson, { registry });
   }
 
   throw new Error('无法确定要使用的配置文件');
 }
 
-async function downloadPackagesWithRetry(packages: PackageItem[]) {
-  const downloader = new PackageDownloader(30); // 提高并发数，因为会跳过失败包
+/**
+ * 单包模式生成临时lock文件，并补充lock文件中缺少的peer依赖及其依赖闭包
+ * 补充失败时给出警告，继续使用补充之前的lock文件
+ */
+async function generatePackageLockFile(packageName: string, context: ParseContext): Promise<string> {
+  const registry = context.config.registry;
+  const lockFilePath = await generateLockFileFromPackageName(packageName, { registry });
+  if (context.options.peers === false || context.omitTypes.has('peer')) {
+    return lockFilePath;
+  }
+
+  try {
+    const peers = await resolvePeerDependencies(lockFilePath, {
+      registry,
+      registryResolver: context.registryResolver,
+      includeOptional: context.options.optionalPeers
+    });
+    printResolvedPeers(peers);
+  } catch (error) {
+    console.log(chalk.yellow(`⚠️  ${error instanceof Error ? error.message : String(error)}，只下载npm解析出的依赖`));
+  }
+  return lockFilePath;
+}
+
+function printResolvedPeers(peers: ResolvedPeer[]): void {
+  const resolved = peers.filter(peer => peer.version);
+  if (resolved.length > 0) {
+    console.log(chalk.blue(`🤝 补充 ${resolved.length} 个lock文件中缺少的peer依赖:`));
+    resolved.forEach(peer => {
+      const optional = peer.optional ? '，可选' : '';
+      console.log(chalk.gray(`    - ${peer.name}@${peer.version}（满足 ${peer.ranges.join('、')}${optional}，被 ${peer.requiredBy.join(', ')} 依赖）`));
+    });
+  }
+  peers.filter(peer => !peer.version).forEach(peer => {
+    console.log(chalk.yellow(`⚠️  无法补充peer依赖 ${peer.name}（被 ${peer.requiredBy.join(', ')} 依赖）: ${peer.error}`));
+  });
+}
+
+function loadPackages(content: string, registryResolver: RegistryResolver, rewriter: UrlRewriter, projectDescriptors: string[] = []): PackageItem[] {
+  // 根据文件内容识别lock文件格式
+  const { packages, rewritten } = applyRewriter(parseLockFileContent(content, registryResolver, true, undefined, projectDescriptors), rewriter);
+  if (rewriter.size > 0) {
+    console.log(chalk.gray(`🔁 根据改写规则修改了 ${rewritten} 个下载地址`));
+  }
+  return packages;
+}
+
+async function downloadPackagesWithRetry(packages: PackageItem[], config: TgzBoxConfig, downloaderOptions: DownloaderOptions = {}) {
+  const options: DownloaderOptions = {
+    ...downloaderOptions,
+    maxRetries: config.retries.download,
+    timeout: config.timeouts.download
+  };
+  const downloader = new PackageDownloader(config.concurrency.download, options); // 提高并发数，因为会跳过失败包
   const totalStartTime = Date.now();
   
   // 清理之前的失败包缓存（开始新的下载会话）
@@ -103,8 +563,12 @@ async function downloadPackagesWithRetry(packages: PackageItem[]) {
   
   console.log(chalk.blue('📦 采用智能下载策略：先下载稳定包，失败包将在最后重试'));
   
+  // 每个包实际使用的registry，重试轮次中成功的包覆盖之前的记录
+  const servedRegistries = new Map<string, string>();
+  
   // 第一轮：正常下载（跳过失败包）
   await performDownloadRound(downloader, packages, '主要下载', true);
+  downloader.getServedRegistries().forEach((registry, key) => servedRegistries.set(key, registry));
   
   // 重试失败的包，最多2次
   while (failedPackageManager.canRetry() && failedPackageManager.getFailedPackages().length > 0) {
@@ -115,13 +579,15 @@ async function downloadPackagesWithRetry(packages: PackageItem[]) {
     console.log(chalk.yellow(`\n🔄 第 ${retryRound} 次重试，尝试下载 ${failedPackages.length} 个失败的包...`));
     
     // 重试时使用更保守的并发数
-    const retryDownloader = new PackageDownloader(10);
+    const retryDownloader = new PackageDownloader(config.concurrency.retry, options);
     await performDownloadRound(retryDownloader, failedPackages, `重试 ${retryRound}`, false);
+    retryDownloader.getServedRegistries().forEach((registry, key) => servedRegistries.set(key, registry));
   }
   
   // 最终结果统计
   const finalStats = failedPackageManager.getStatistics();
   const totalElapsed = ((Date.now() - totalStartTime) / 1000).toFixed(1);
+  const outputDir = options.outputDir || path.resolve(DEFAULT_PACKAGES_DIR);
   
   console.log('\n' + '='.repeat(60));
   console.log(chalk.blue.bold('📊 下载完成统计'));
@@ -130,6 +596,19 @@ async function downloadPackagesWithRetry(packages: PackageItem[]) {
   const successCount = packages.length - finalStats.totalFailed;
   console.log(chalk.green(`✅ 成功下载: ${successCount}/${packages.length} 个包`));
   
+  const inventorySkipped = downloader.getInventorySkippedCount();
+  if (inventorySkipped > 0) {
+    console.log(chalk.gray(`⏭️  离线端已存在，跳过下载: ${inventorySkipped} 个包`));
+  }
+  
+  if (options.registryResolver && options.registryResolver.mirrors.length > 0) {
+    printServedRegistries(servedRegistries, options.registryResolver);
+  }
+  
+  if (finalStats.integrityFailures > 0) {
+    console.log(chalk.red(`🔒 完整性校验失败: ${finalStats.integrityFailures} 个包 (其中 ${finalStats.integrityFailed} 个最终失败)`));
+  }
+  
   if (finalStats.totalFailed > 0) {
     console.log(chalk.red(`❌ 最终失败: ${finalStats.totalFailed} 个包 (已重试 ${finalStats.retryCount} 次)`));
     
@@ -143,18 +622,43 @@ async function downloadPackagesWithRetry(packages: PackageItem[]) {
       }
     });
     
-    // 生成失败包的package.json
-    await failedPackageManager.generateFailedPackageJson('./failed-packages.json');
+    // 生成失败包的package.json，与输出目录放在同一目录下
+    await failedPackageManager.generateFailedPackageJson(path.join(path.dirname(outputDir), 'failed-packages.json'));
     console.log(chalk.yellow('\n💡 提示: 可以稍后使用生成的 failed-packages.json 重新尝试下载这些包'));
   } else {
     console.log(chalk.green.bold('🎉 所有包下载成功！'));
   }
   
   console.log(chalk.blue(`⏱️  总耗时: ${totalElapsed}s`));
-  console.log(chalk.blue(`📁 文件保存位置: ./packages/`));
+  console.log(chalk.blue(`📁 文件保存位置: ${outputDir}`));
   console.log('='.repeat(60));
 }
 
+/**
+ * 按registry统计本次下载的包，并列出由备用镜像提供的包
+ */
+function printServedRegistries(servedRegistries: Map<string, string>, registryResolver: RegistryResolver): void {
+  if (servedRegistries.size === 0) {
+    return;
+  }
+
+  const counts = new Map<string, number>();
+  const fromMirrors: string[] = [];
+  servedRegistries.forEach((registry, key) => {
+    counts.set(registry, (counts.get(registry) || 0) + 1);
+    if (registryResolver.mirrors.includes(registry) && registry !== registryResolver.defaultRegistry) {
+      fromMirrors.push(`${key} <- ${registry}`);
+    }
+  });
+
+  console.log(chalk.blue('🪞 下载来源:'));
+  counts.forEach((count, registry) => console.log(chalk.gray(`     ${registry}: ${count} 个包`)));
+  if (fromMirrors.length > 0) {
+    console.log(chalk.yellow(`   由备用镜像提供的包 (${fromMirrors.length}):`));
+    fromMirrors.forEach(item => console.log(chalk.gray(`     ${item}`)));
+  }
+}
+
 // 执行单轮下载的辅助函数
 async function performDownloadRound(
   downloader: PackageDownloader, 
@@ -201,12 +705,12 @@ async function performDownloadRound(
 
 
 // 修改performAutoCheck函数
-async function performAutoCheck(directory?: string) {
+async function performAutoCheck(directory?: string, downloadMajorVersions = true, checkOptions: TgzCheckOptions = {}) {
   try {
-    const packagesDir = directory || path.resolve('./packages');
+    const packagesDir = directory || path.resolve(DEFAULT_PACKAGES_DIR);
     
-    // 进行完整性和版本检查，自动下载缺失版本
-    const summary = await checkTgzFiles(packagesDir, true);
+    // 进行完整性和版本检查，按配置自动下载缺失版本
+    const summary = await checkTgzFiles(packagesDir, downloadMajorVersions, checkOptions);
     
     // 优化提示信息格式
     console.log('\n' + '='.repeat(50));
@@ -219,7 +723,14 @@ async function performAutoCheck(directory?: string) {
     }
     
     if (summary.downloadedVersions.length > 0) {
-      console.log(chalk.green(`✅ 已下载 ${summary.downloadedVersions.length} 个major版本依赖`));
+      console.log(chalk.green(`✅ 已下载 ${summary.downloadedVersions.length} 个版本策略选出的版本`));
+    }
+    
+    const manifestIssues = summary.manifest
+      ? summary.manifest.missing.length + summary.manifest.modified.length + summary.manifest.unexpected.length
+      : 0;
+    if (manifestIssues > 0) {
+      console.log(chalk.yellow(`⚠️  manifest.json校验发现 ${manifestIssues} 个问题文件`));
     }
     
     if (summary.errors.length > 0) {
@@ -229,7 +740,8 @@ async function performAutoCheck(directory?: string) {
     }
     
     if (summary.incompletePackages.length === 0 && 
-        summary.errors.length === 0) {
+        summary.errors.length === 0 &&
+        manifestIssues === 0) {
       console.log(chalk.green('✅ 所有依赖都完整'));
     }
     
@@ -0,0 +1,50 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import fs from 'fs-extra';
+import { createInventory } from '../utils/inventory';
+
+interface InventoryOptions {
+  directory?: string;
+  output?: string;
+}
+
+export async function inventory(options: InventoryOptions = {}): Promise<void> {
+  try {
+    const directory = path.resolve(options.directory || './packages');
+    const outputFile = path.resolve(options.output || './inventory.json');
+
+    if (!await fs.pathExists(directory)) {
+      throw new Error(`目录不存在: ${directory}`);
+    }
+
+    console.log(chalk.blue(`📂 扫描目录: ${directory}`));
+    const spinner = ora('正在计算tgz文件哈希...').start();
+
+    const inventoryData = await createInventory(directory, (completed, total) => {
+      spinner.text = `正在计算tgz文件哈希: ${completed}/${total}`;
+    });
+
+    await fs.writeJSON(outputFile, inventoryData, { spaces: 2 });
+    spinner.succeed(chalk.green(`清单导出完成，共 ${inventoryData.totalPackages} 个版本`));
+
+    console.log(chalk.blue(`📋 清单文件: ${outputFile}`));
+    console.log(chalk.gray('   在联网环境中使用: tgz-box install --inventory inventory.json'));
+    console.log(chalk.gray('   或增量打包: tgz-box bundle --inventory inventory.json'));
+  } catch (error) {
+    console.error(chalk.red('❌ 导出清单失败:'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+// 导出命令配置
+export function setupInventoryCommand(program: Command): void {
+  program
+    .command('inventory')
+    .description('导出packages目录中已有版本的清单（在离线端执行）')
+    .option('-d, --directory <path>', '指定packages目录路径', './packages')
+    .option('-o, --output <file>', '清单文件输出路径', './inventory.json')
+    .action(inventory);
+}
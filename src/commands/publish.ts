@@ -0,0 +1,120 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import fs from 'fs-extra';
+import { scanStoredPackages } from '../utils/packageStore';
+import { PackagePublisher, generateFailedUploadsJson } from '../utils/publisher';
+import { applyRuntimeConfig, loadConfig } from '../utils/config';
+import { loadNpmrc } from '../utils/npmrc';
+import { RegistryResolver } from '../utils/registry';
+import { resolveNetworkSettings } from '../utils/proxy';
+import { maskSecrets } from '../utils/auth';
+
+interface PublishCommandOptions {
+  registry: string;
+  directory?: string;
+  cwd?: string;
+  token?: string;
+  concurrency?: string;
+  tag?: string;
+}
+
+export async function publish(options: PublishCommandOptions): Promise<void> {
+  try {
+    const directory = path.resolve(options.directory || './packages');
+    const token = options.token || process.env.NPM_TOKEN;
+
+    if (!await fs.pathExists(directory)) {
+      throw new Error(`目录不存在: ${directory}`);
+    }
+
+    // 代理、证书和registry凭据来自项目的配置文件和.npmrc，项目目录默认为packages目录的上级目录
+    const projectDir = path.resolve(options.cwd || path.dirname(directory));
+    const { config, files } = await loadConfig(projectDir);
+    files.forEach(file => console.log(chalk.gray(`⚙️  已加载配置文件: ${file}`)));
+    const npmrc = await loadNpmrc(projectDir);
+    const registryResolver = RegistryResolver.fromNpmrc(npmrc, config.registry, config.mirrors);
+    applyRuntimeConfig(config, { registryResolver, network: await resolveNetworkSettings(npmrc, config.network) });
+
+    console.log(chalk.blue(`📂 扫描目录: ${directory}`));
+    const storedPackages = await scanStoredPackages(directory);
+    const totalVersions = Array.from(storedPackages.values()).reduce((count, pkg) => count + pkg.tarballs.size, 0);
+
+    if (totalVersions === 0) {
+      console.log(chalk.yellow('没有找到可发布的tgz文件'));
+      return;
+    }
+
+    console.log(chalk.blue(`📤 准备发布 ${storedPackages.size} 个包的 ${totalVersions} 个版本到 ${options.registry}`));
+    if (!token && !registryResolver.getAuthHeaders(`${options.registry.replace(/\/$/, '')}/`).authorization) {
+      console.log(chalk.yellow('⚠️  未提供认证token，registry可能拒绝发布'));
+    }
+
+    const publisher = new PackagePublisher({
+      registry: options.registry,
+      token,
+      registryResolver,
+      concurrency: parseInt(options.concurrency || '5', 10),
+      tag: options.tag
+    });
+
+    const startTime = Date.now();
+    const spinner = ora('开始发布...').start();
+
+    publisher.setProgressCallback((progress) => {
+      const done = progress.published + progress.skipped + progress.failed;
+      const percentage = progress.total > 0 ? (done / progress.total * 100).toFixed(1) : '0.0';
+      spinner.text = [
+        `发布进度: ${done}/${progress.total} (${percentage}%)`,
+        `成功: ${progress.published}`,
+        `已存在: ${progress.skipped}`,
+        `失败: ${progress.failed}`,
+        progress.current ? `当前: ${progress.current}` : ''
+      ].filter(Boolean).join(' | ');
+    });
+
+    const result = await publisher.publish(storedPackages);
+    spinner.stop();
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+    console.log('\n' + '='.repeat(60));
+    console.log(chalk.blue.bold('📊 发布完成统计'));
+    console.log('='.repeat(60));
+    console.log(chalk.green(`✅ 发布成功: ${result.published.length} 个版本`));
+    console.log(chalk.gray(`⏭️  已存在跳过: ${result.skipped.length} 个版本`));
+
+    if (result.failed.length > 0) {
+      console.log(chalk.red(`❌ 发布失败: ${result.failed.length} 个版本`));
+      result.failed.forEach((item, index) => {
+        console.log(chalk.red(`  ${index + 1}. ${item.name}@${item.version}`));
+        console.log(chalk.gray(`     错误: ${item.error}`));
+      });
+      await generateFailedUploadsJson(result.failed, options.registry, path.join(path.dirname(directory), 'failed-uploads.json'));
+    } else {
+      console.log(chalk.green.bold('🎉 所有版本发布成功！'));
+    }
+
+    console.log(chalk.blue(`⏱️  总耗时: ${elapsed}s`));
+    console.log('='.repeat(60));
+  } catch (error) {
+    console.error(chalk.red('❌ 发布过程中发生错误:'));
+    console.error(chalk.red(maskSecrets(error instanceof Error ? error.message : String(error))));
+    process.exit(1);
+  }
+}
+
+// 导出命令配置
+export function setupPublishCommand(program: Command): void {
+  program
+    .command('publish')
+    .description('将packages目录中的tgz文件发布到私有registry')
+    .requiredOption('-r, --registry <url>', '目标registry地址')
+    .option('-d, --directory <path>', '指定packages目录路径', './packages')
+    .option('-t, --token <token>', '认证token（默认读取NPM_TOKEN环境变量，都未提供时使用.npmrc中目标registry的凭据）')
+    .option('--cwd <path>', '加载配置文件和.npmrc的项目目录（默认为packages目录的上级目录）')
+    .option('--concurrency <number>', '并发发布的包数量', '5')
+    .option('--tag <tag>', '为所有发布的版本设置指定的dist-tag')
+    .action(publish);
+}
@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs-extra';
+import { RegistryServer } from '../utils/registryServer';
+
+interface ServeOptions {
+  directory?: string;
+  port?: string;
+  host?: string;
+  quiet?: boolean;
+}
+
+export async function serve(options: ServeOptions = {}): Promise<void> {
+  try {
+    const directory = path.resolve(options.directory || './packages');
+    const port = parseInt(options.port || '4873', 10);
+    const host = options.host || 'localhost';
+
+    if (!await fs.pathExists(directory)) {
+      throw new Error(`目录不存在: ${directory}`);
+    }
+
+    const server = new RegistryServer({
+      directory,
+      host,
+      port,
+      onRequest: options.quiet ? undefined : (method, url, status) => {
+        const color = status < 400 ? chalk.gray : chalk.yellow;
+        console.log(color(`${status} ${method} ${url}`));
+      }
+    });
+
+    console.log(chalk.blue(`📂 扫描目录: ${directory}`));
+    const packageCount = await server.load();
+    const address = await server.start();
+
+    console.log(chalk.green(`✅ 离线registry已启动，共 ${packageCount} 个包`));
+    console.log(chalk.blue(`🌐 地址: ${address}`));
+    console.log(chalk.gray(`   使用方式: npm install --registry ${address}`));
+    console.log(chalk.gray('   按 Ctrl+C 停止服务'));
+  } catch (error) {
+    console.error(chalk.red('❌ 启动服务失败:'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+// 导出命令配置
+export function setupServeCommand(program: Command): void {
+  program
+    .command('serve')
+    .alias('s')
+    .description('基于packages目录启动离线npm registry')
+    .option('-d, --directory <path>', '指定packages目录路径', './packages')
+    .option('-p, --port <port>', '监听端口', '4873')
+    .option('-H, --host <host>', '监听地址', 'localhost')
+    .option('-q, --quiet', '不输出请求日志')
+    .action(serve);
+}
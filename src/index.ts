@@ -5,7 +5,13 @@ import path from 'path';
 import { install } from './commands/install';
 import { clearCache } from './npm/cache';
 import { setupCheckCommand } from './commands/check';
+import { setupServeCommand } from './commands/serve';
+import { setupPublishCommand } from './commands/publish';
+import { setupBundleCommands } from './commands/bundle';
+import { setupInventoryCommand } from './commands/inventory';
+import { setupConfigCommand } from './commands/config';
 import { setupSignalHandlers } from './npm/npmUtils';
+import { collectList } from './utils/cli';
 
 const packageJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../package.json'), 'utf8'));
 
@@ -28,6 +34,29 @@ program
   .option('-p, --package-json', '强制使用package.json（忽略package-lock.json）')
   .option('-c, --clear-cache', '下载前清理npm缓存')
   .option('--force-package', '强制使用package.json模式')
+  .option('-y, --yarn', '强制使用yarn.lock')
+  .option('--pnpm', '强制使用pnpm-lock.yaml')
+  .option('--inventory <file>', '离线端导出的清单文件，只下载离线端缺失的版本')
+  .option('--cwd <path>', '项目目录（默认为当前目录）')
+  .option('-o, --out <path>', 'tgz文件输出目录（默认为项目目录下的packages）')
+  .option('--lockfile <path>', '指定要解析的lock文件或package.json路径')
+  .option('--concurrency <number>', '并发下载数（覆盖配置文件）')
+  .option('--registry <url>', '默认registry地址（scope registry仍按.npmrc配置）')
+  .option('--output-lockfile <path>', '输出离线端使用的lock文件，resolved地址按反向改写规则处理')
+  .option('--workspace <name>', '只下载指定workspace（包名或目录）的依赖闭包')
+  .option('--pack-workspaces', '将workspace包打包为tgz（默认跳过）')
+  .option('--project <paths...>', '批量下载多个项目（目录或lock文件），相同版本只下载一次')
+  .option('--projects <file>', '项目列表文件，每行一个项目目录或lock文件路径')
+  .option('--omit <type>', '跳过指定类型的依赖：dev、optional、peer（可多次指定或逗号分隔）', collectList)
+  .option('--include <glob>', '只下载包名匹配的包（覆盖配置文件的filters.include，可多次指定）', collectList)
+  .option('--exclude <glob>', '跳过包名匹配的包（覆盖配置文件的filters.exclude，可多次指定）', collectList)
+  .option('--platform <list>', '目标平台，如 linux-x64,linux-arm64-musl，跳过不支持任何目标平台的可选依赖', collectList)
+  .option('--no-peers', '指定包名下载时不自动补充lock文件中缺少的peer依赖')
+  .option('--optional-peers', '指定包名下载时同时补充peerDependenciesMeta中标记为optional的peer依赖')
+  .option('--dry-run', '只输出下载计划（每个版本是否已存在和预计大小），不写入输出目录')
+  .option('--plan-output <file>', '将下载计划导出为JSON文件（需要 --dry-run）')
+  .option('--layout <type>', '新输出目录的存储布局：nested（默认）、flat、content')
+  .option('--nested <mode>', 'flat和content布局的嵌套视图：none（默认）、hardlinks、index')
   .action(install);
 
 program
@@ -38,6 +67,21 @@ program
 // 添加检查命令
 setupCheckCommand(program);
 
+// 添加离线registry服务命令
+setupServeCommand(program);
+
+// 添加发布命令
+setupPublishCommand(program);
+
+// 添加打包/解压命令
+setupBundleCommands(program);
+
+// 添加离线端清单命令
+setupInventoryCommand(program);
+
+// 添加配置查看命令
+setupConfigCommand(program);
+
 program.parse();
 
 if (!process.argv.slice(2).length) {
@@ -2,33 +2,55 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import chalk from 'chalk';
 import fs from 'fs-extra';
-import { BASE_PACKAGE_CONTENT, TEMP_DIR, TEMP_PACKAGE_JSON, TEMP_PACKAGE_LOCK } from '../utils/constants';
+import path from 'path';
+import { BASE_PACKAGE_CONTENT, TEMP_DIR } from '../utils/constants';
 import { cleanupTempDirectory, ensureDirectoryExists } from '../utils/fileUtils';
+import { MissingPeer, findMissingPeers, selectPeerVersion } from '../utils/peerDependencies';
+import { RegistryResolver } from '../utils/registry';
+import { networkOptimizer } from '../utils/networkOptimizer';
+import { maskSecrets } from '../utils/auth';
 
 const execAsync = promisify(exec);
 
-export async function generateLockFileFromPackage(packageJsonPath: string): Promise<string> {
-  cleanupTempDirectory(TEMP_DIR);
-  ensureDirectoryExists(TEMP_DIR);
+// peer依赖自身也可能有缺少的peer依赖，最多补充的轮数
+const MAX_PEER_ROUNDS = 5;
+
+export interface LockGenerateOptions {
+  tempDir?: string;
+  // 显式指定的registry，未指定时使用npm自身的配置
+  registry?: string;
+}
+
+export async function generateLockFileFromPackage(packageJsonPath: string, options: LockGenerateOptions = {}): Promise<string> {
+  const tempDir = options.tempDir || TEMP_DIR;
+  cleanupTempDirectory(tempDir);
+  ensureDirectoryExists(tempDir);
 
   try {
     // 复制package.json到临时目录
     const packageContent = await fs.readJSON(packageJsonPath);
-    await fs.writeJSON(TEMP_PACKAGE_JSON, packageContent, { spaces: 2 });
+    await fs.writeJSON(path.join(tempDir, 'package.json'), packageContent, { spaces: 2 });
+
+    // 项目的.npmrc（scope registry等）在临时目录中同样生效
+    const npmrcPath = path.join(path.dirname(packageJsonPath), '.npmrc');
+    if (await fs.pathExists(npmrcPath)) {
+      await fs.copy(npmrcPath, path.join(tempDir, '.npmrc'));
+    }
 
     // 生成package-lock.json
-    await execAsync(`cd ${TEMP_DIR} && npm install --package-lock-only`);
+    await execAsync(`npm install --package-lock-only${getRegistryArg(options.registry)}`, { cwd: tempDir });
     
-    return TEMP_PACKAGE_LOCK;
+    return path.join(tempDir, 'package-lock.json');
   } catch (error) {
-    cleanupTempDirectory(TEMP_DIR);
+    cleanupTempDirectory(tempDir);
     throw new Error('生成package-lock.json失败');
   }
 }
 
-export async function generateLockFileFromPackageName(packageName: string): Promise<string> {
-  cleanupTempDirectory(TEMP_DIR);
-  ensureDirectoryExists(TEMP_DIR);
+export async function generateLockFileFromPackageName(packageName: string, options: LockGenerateOptions = {}): Promise<string> {
+  const tempDir = options.tempDir || TEMP_DIR;
+  cleanupTempDirectory(tempDir);
+  ensureDirectoryExists(tempDir);
 
   try {
     // 创建临时package.json
@@ -39,18 +61,87 @@ export async function generateLockFileFromPackageName(packageName: string): Prom
       }
     };
     
-    await fs.writeJSON(TEMP_PACKAGE_JSON, tempPackage, { spaces: 2 });
+    await fs.writeJSON(path.join(tempDir, 'package.json'), tempPackage, { spaces: 2 });
 
     // 生成package-lock.json
-    await execAsync(`cd ${TEMP_DIR} && npm install ${packageName} --package-lock-only`);
+    await execAsync(`npm install ${packageName} --package-lock-only${getRegistryArg(options.registry)}`, { cwd: tempDir });
     
-    return TEMP_PACKAGE_LOCK;
+    return path.join(tempDir, 'package-lock.json');
   } catch (error) {
-    cleanupTempDirectory(TEMP_DIR);
+    cleanupTempDirectory(tempDir);
     throw new Error(`解析包失败: ${packageName}`);
   }
 }
 
+export interface PeerResolveOptions extends LockGenerateOptions {
+  registryResolver: RegistryResolver;
+  // 同时补充peerDependenciesMeta中标记为optional的peer依赖
+  includeOptional?: boolean;
+}
+
+export interface ResolvedPeer extends MissingPeer {
+  // 没有同时满足所有范围的版本或获取版本信息失败时为空
+  version?: string;
+  error?: string;
+}
+
+/**
+ * 将lock文件中缺少的peer依赖按满足所有依赖方的版本加入临时package.json，重新生成lock文件
+ * 新加入的peer依赖的依赖闭包由npm一并解析，直到没有新的缺少的peer依赖
+ */
+export async function resolvePeerDependencies(lockFilePath: string, options: PeerResolveOptions): Promise<ResolvedPeer[]> {
+  const tempDir = path.dirname(lockFilePath);
+  const packageJsonPath = path.join(tempDir, 'package.json');
+  const results: ResolvedPeer[] = [];
+  const attempted = new Set<string>();
+
+  for (let round = 0; round < MAX_PEER_ROUNDS; round++) {
+    const missing = findMissingPeers(await fs.readJSON(lockFilePath), options.includeOptional)
+      .filter(peer => !attempted.has(peer.name));
+    if (missing.length === 0) {
+      break;
+    }
+    missing.forEach(peer => attempted.add(peer.name));
+
+    const resolved = await Promise.all(missing.map(peer => resolvePeerVersion(peer, options.registryResolver)));
+    results.push(...resolved);
+    const pinned = resolved.filter(peer => peer.version);
+    if (pinned.length === 0) {
+      break;
+    }
+
+    const packageJson = await fs.readJSON(packageJsonPath);
+    packageJson.dependencies = packageJson.dependencies || {};
+    pinned.forEach(peer => {
+      packageJson.dependencies[peer.name] = peer.version;
+    });
+    await fs.writeJSON(packageJsonPath, packageJson, { spaces: 2 });
+
+    try {
+      await execAsync(`npm install --package-lock-only${getRegistryArg(options.registry)}`, { cwd: tempDir });
+    } catch (error: any) {
+      const reason = String(error.stderr || error.message || error).split('\n').find(line => line.trim()) || '';
+      throw new Error(`补充peer依赖后生成package-lock.json失败: ${maskSecrets(reason)}`);
+    }
+  }
+
+  return results;
+}
+
+async function resolvePeerVersion(peer: MissingPeer, registryResolver: RegistryResolver): Promise<ResolvedPeer> {
+  try {
+    const packument = await networkOptimizer.getWithRetry(registryResolver.getPackumentUrl(peer.name));
+    const version = selectPeerVersion(Object.keys(packument?.versions || {}), peer.ranges, packument?.['dist-tags']?.latest);
+    return version ? { ...peer, version } : { ...peer, error: `没有同时满足 ${peer.ranges.join('、')} 的版本` };
+  } catch (error) {
+    return { ...peer, error: `获取版本信息失败: ${maskSecrets(error instanceof Error ? error.message : String(error))}` };
+  }
+}
+
+function getRegistryArg(registry?: string): string {
+  return registry ? ` --registry=${JSON.stringify(registry)}` : '';
+}
+
 // 信号处理函数
 export function setupSignalHandlers() {
   const cleanup = async () => {
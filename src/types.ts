@@ -1,23 +1,59 @@
+// 依赖来源：registry、其他tgz地址、git仓库、本地目录或文件、链接（workspace等，不下载）
+export type PackageSource = 'registry' | 'tarball' | 'git' | 'file' | 'link';
+
 export interface PackageItem {
   name: string;
   resolved: string;
   path: string;
   version: string;
+  integrity?: string;
   error?: string;
+  // 未设置时视为registry
+  source?: PackageSource;
+  // lock文件中的依赖类型标记，都未设置时为生产依赖
+  dev?: boolean;
+  optional?: boolean;
+  // 只被devDependencies和optionalDependencies共同需要
+  devOptional?: boolean;
+  peer?: boolean;
+  // 包支持的平台，与package.json中的os/cpu/libc一致
+  os?: string[];
+  cpu?: string[];
+  libc?: string[];
+  // 批量下载时integrity与其他项目不同的同名同版本包，单独保存在 _variants/<variant>/ 中
+  variant?: string;
 }
 
 export interface LockData {
   packages?: Record<string, {
+    name?: string;
     resolved: string;
     version: string;
+    integrity?: string;
+    link?: boolean;
+    dev?: boolean;
+    optional?: boolean;
+    devOptional?: boolean;
+    peer?: boolean;
+    os?: string[];
+    cpu?: string[];
+    libc?: string[];
+    peerDependencies?: Record<string, string>;
+    peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+    workspaces?: string[] | { packages?: string[] };
   }>;
   dependencies?: Record<string, {
     resolved: string;
     version: string;
+    integrity?: string;
+    dev?: boolean;
+    optional?: boolean;
     dependencies?: any;
   }>;
 }
 
+export type LockFileType = 'npm' | 'yarn-classic' | 'yarn-berry' | 'pnpm' | 'bun';
+
 export interface DownloadProgress {
   total: number;
   completed: number;
@@ -29,4 +65,28 @@ export interface InstallOptions {
   package?: boolean;
   clearCache?: boolean;
   forcePackage?: boolean;
+  yarn?: boolean;
+  pnpm?: boolean;
+  inventory?: string;
+  cwd?: string;
+  out?: string;
+  lockfile?: string;
+  concurrency?: string;
+  registry?: string;
+  outputLockfile?: string;
+  workspace?: string;
+  packWorkspaces?: boolean;
+  project?: string[];
+  projects?: string;
+  omit?: string[];
+  include?: string[];
+  exclude?: string[];
+  platform?: string[];
+  // 单包模式下自动补充lock文件中缺少的peer依赖，--no-peers 时为false
+  peers?: boolean;
+  optionalPeers?: boolean;
+  dryRun?: boolean;
+  planOutput?: string;
+  layout?: string;
+  nested?: string;
 }
\ No newline at end of file
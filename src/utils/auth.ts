@@ -0,0 +1,177 @@
+import { NpmrcConfig, getNpmrcBoolean } from './npmrc';
+
+interface Credential {
+  token?: string;
+  // base64编码的 username:password
+  basic?: string;
+  alwaysAuth: boolean;
+}
+
+const AUTH_KEYS = ['_authToken', '_auth', 'username', '_password', 'always-auth'];
+
+// 需要在日志和报告中屏蔽的凭据
+const secrets = new Set<string>();
+
+/**
+ * 按registry地址（nerf-dart，如 //registry.example.com/npm/）保存的凭据
+ * 只有请求地址与凭据的host和路径前缀匹配时才会携带，不会发送给其他host
+ */
+export class RegistryCredentials {
+  private credentials = new Map<string, Credential>();
+
+  /**
+   * 读取 //host/path/:_authToken 等按registry配置的凭据
+   * 顶层的 _authToken、_auth 等旧写法只用于.npmrc中配置的默认registry
+   */
+  static fromNpmrc(npmrc: NpmrcConfig, defaultRegistry: string): RegistryCredentials {
+    const credentials = new RegistryCredentials();
+    const grouped = new Map<string, Record<string, string>>();
+    const globalAlwaysAuth = getNpmrcBoolean(npmrc.values, 'always-auth', false);
+
+    Object.entries(npmrc.values).forEach(([key, value]) => {
+      let nerfDart: string;
+      let field: string;
+
+      if (key.startsWith('//')) {
+        const separatorIndex = key.lastIndexOf(':');
+        if (separatorIndex === -1) {
+          return;
+        }
+        nerfDart = normalizeNerfDart(key.slice(0, separatorIndex));
+        field = key.slice(separatorIndex + 1);
+      } else if (AUTH_KEYS.includes(key)) {
+        nerfDart = toNerfDart(defaultRegistry);
+        field = key;
+      } else {
+        return;
+      }
+
+      if (!AUTH_KEYS.includes(field)) {
+        return;
+      }
+      grouped.set(nerfDart, { ...grouped.get(nerfDart), [field]: value });
+    });
+
+    grouped.forEach((fields, nerfDart) => {
+      const alwaysAuth = fields['always-auth'] !== undefined
+        ? getNpmrcBoolean(fields, 'always-auth', false)
+        : globalAlwaysAuth;
+      // 未被使用的凭据同样需要屏蔽
+      [fields._authToken, fields._auth, fields._password].forEach(registerSecret);
+
+      if (fields._authToken) {
+        credentials.set(nerfDart, { token: fields._authToken, alwaysAuth });
+      } else if (fields._auth) {
+        credentials.set(nerfDart, { basic: fields._auth, alwaysAuth });
+      } else if (fields.username && fields._password) {
+        const password = Buffer.from(fields._password, 'base64').toString('utf8');
+        registerSecret(password);
+        credentials.set(nerfDart, {
+          basic: Buffer.from(`${fields.username}:${password}`).toString('base64'),
+          alwaysAuth
+        });
+      }
+    });
+
+    return credentials;
+  }
+
+  get size(): number {
+    return this.credentials.size;
+  }
+
+  /**
+   * 已配置凭据的registry及认证方式，不包含凭据内容，用于展示
+   */
+  describe(): Array<{ registry: string; type: 'token' | 'basic'; alwaysAuth: boolean }> {
+    return Array.from(this.credentials.entries()).map(([registry, credential]) => ({
+      registry,
+      type: credential.token ? 'token' : 'basic',
+      alwaysAuth: credential.alwaysAuth
+    }));
+  }
+
+  /**
+   * 获取请求地址对应的认证头
+   * 优先使用路径前缀最长的凭据；配置了always-auth的凭据对同一host下的所有地址生效
+   */
+  getAuthHeaders(url: string): Record<string, string> {
+    const credential = this.findCredential(url);
+    if (!credential) {
+      return {};
+    }
+    return {
+      authorization: credential.token ? `Bearer ${credential.token}` : `Basic ${credential.basic}`
+    };
+  }
+
+  private set(nerfDart: string, credential: Credential): void {
+    registerSecret(credential.token);
+    registerSecret(credential.basic);
+    this.credentials.set(nerfDart, credential);
+  }
+
+  private findCredential(url: string): Credential | undefined {
+    let target: string;
+    let host: string;
+    try {
+      const parsed = new URL(url);
+      target = `//${parsed.host}${parsed.pathname}`;
+      host = `//${parsed.host}/`;
+    } catch {
+      return undefined;
+    }
+
+    let matched: [string, Credential] | undefined;
+    this.credentials.forEach((credential, nerfDart) => {
+      if (target.startsWith(nerfDart) && (!matched || nerfDart.length > matched[0].length)) {
+        matched = [nerfDart, credential];
+      }
+    });
+    if (matched) {
+      return matched[1];
+    }
+
+    for (const [nerfDart, credential] of this.credentials) {
+      if (credential.alwaysAuth && nerfDart.startsWith(host)) {
+        return credential;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * 登记需要屏蔽的凭据
+ */
+export function registerSecret(secret?: string): void {
+  if (secret && secret.length >= 4) {
+    secrets.add(secret);
+  }
+}
+
+/**
+ * 屏蔽文本中的凭据：已登记的token/密码、URL中的用户名密码以及认证头
+ */
+export function maskSecrets(text: string): string {
+  let masked = text
+    .replace(/(\/\/)[^/\s:@]+:[^/\s@]+@/g, '$1***:***@')
+    .replace(/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g, '$1 ***');
+
+  secrets.forEach(secret => {
+    masked = masked.split(secret).join('***');
+  });
+  return masked;
+}
+
+/**
+ * 将registry地址转换为nerf-dart格式，如 https://host/npm/ -> //host/npm/
+ */
+function toNerfDart(registry: string): string {
+  const parsed = new URL(registry);
+  return normalizeNerfDart(`//${parsed.host}${parsed.pathname}`);
+}
+
+function normalizeNerfDart(nerfDart: string): string {
+  return nerfDart.endsWith('/') ? nerfDart : `${nerfDart}/`;
+}
@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import stream from 'stream';
+import { promisify } from 'util';
+import tar from 'tar-stream';
+import { IntegrityHasher, hashFile } from './integrity';
+import { Inventory } from './inventory';
+import { scanStoredPackages } from './packageStore';
+import { PACKAGE_MANIFEST_NAME, PackageManifest, PackageManifestFile, getManifestPath } from './packageManifest';
+
+const pipeline = promisify(stream.pipeline);
+
+export const BUNDLE_MANIFEST_NAME = 'tgz-box-bundle.json';
+const BUNDLE_ROOT = 'packages';
+
+export interface BundleFileEntry {
+  path: string;
+  size: number;
+  sha512: string;
+}
+
+export interface BundleManifest {
+  formatVersion: number;
+  createdAt: string;
+  totalFiles: number;
+  totalSize: number;
+  // 增量bundle时记录所基于的离线端清单
+  delta?: {
+    inventoryCreatedAt: string;
+    skippedVersions: number;
+  };
+  files: BundleFileEntry[];
+}
+
+export interface BundleOptions {
+  // 离线端清单，只打包离线端缺失的版本
+  inventory?: Inventory;
+}
+
+export interface BundleProgress {
+  files: number;
+  bytes: number;
+  current?: string;
+}
+
+export interface UnbundleResult {
+  manifest: BundleManifest | null;
+  extracted: BundleFileEntry[];
+  missing: string[];
+  corrupted: string[];
+  unexpected: string[];
+}
+
+/**
+ * 将packages目录流式打包为单个tar文件
+ * 清单在所有文件写入后作为最后一个条目追加，打包只需读取一次文件
+ */
+export async function createBundle(
+  directory: string,
+  outputFile: string,
+  onProgress?: (progress: BundleProgress) => void,
+  options: BundleOptions = {}
+): Promise<BundleManifest> {
+  let files = await listFiles(directory, path.resolve(outputFile));
+  let delta: BundleManifest['delta'];
+  let packageManifest: PackageManifestFile | undefined;
+
+  if (options.inventory) {
+    const { includedFiles, skippedVersions } = await selectDeltaFiles(directory, options.inventory);
+    files = files.filter(file => includedFiles.has(file));
+    delta = { inventoryCreatedAt: options.inventory.createdAt, skippedVersions };
+
+    // 增量bundle只携带本次打包文件的清单记录，解压时合并到离线端的清单中
+    if (await PackageManifest.exists(directory)) {
+      packageManifest = (await PackageManifest.load(directory)).toJSON();
+      packageManifest.packages = packageManifest.packages.filter(entry => includedFiles.has(entry.path));
+      packageManifest.totalPackages = packageManifest.packages.length;
+    }
+  }
+
+  const pack = tar.pack();
+  const output = pipeline(pack, fs.createWriteStream(outputFile));
+  // 打包过程中出错时由下方的catch统一处理
+  output.catch(() => {});
+  const entries: BundleFileEntry[] = [];
+  const progress: BundleProgress = { files: 0, bytes: 0 };
+
+  try {
+    for (const relativePath of files) {
+      const fullPath = path.join(directory, relativePath);
+      const stat = await fs.stat(fullPath);
+      const hasher = new IntegrityHasher();
+
+      progress.current = relativePath;
+      onProgress?.({ ...progress });
+
+      const entry = pack.entry({
+        name: `${BUNDLE_ROOT}/${relativePath}`,
+        size: stat.size,
+        mode: 0o644,
+        mtime: stat.mtime
+      });
+      await pipeline(fs.createReadStream(fullPath), hasher, entry);
+
+      entries.push({ path: relativePath, size: hasher.size, sha512: hasher.getIntegrity('sha512')! });
+      progress.files++;
+      progress.bytes += hasher.size;
+      onProgress?.({ ...progress });
+    }
+
+    if (packageManifest) {
+      const data = Buffer.from(JSON.stringify(packageManifest, null, 2));
+      pack.entry({ name: `${BUNDLE_ROOT}/${PACKAGE_MANIFEST_NAME}`, size: data.length, mode: 0o644 }, data);
+      entries.push({
+        path: PACKAGE_MANIFEST_NAME,
+        size: data.length,
+        sha512: `sha512-${crypto.createHash('sha512').update(data).digest('base64')}`
+      });
+      progress.files++;
+      progress.bytes += data.length;
+    }
+
+    const manifest: BundleManifest = {
+      formatVersion: 1,
+      createdAt: new Date().toISOString(),
+      totalFiles: entries.length,
+      totalSize: progress.bytes,
+      delta,
+      files: entries
+    };
+
+    pack.entry({ name: BUNDLE_MANIFEST_NAME, mode: 0o644 }, JSON.stringify(manifest, null, 2));
+    pack.finalize();
+    await output;
+
+    return manifest;
+  } catch (error) {
+    pack.destroy(error as Error);
+    await output.catch(() => {});
+    await fs.remove(outputFile).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * 解压bundle到目标目录，并使用内嵌清单校验每个文件
+ * 校验失败的文件会被删除，避免被当作完整的包使用
+ */
+export async function extractBundle(
+  bundleFile: string,
+  targetDirectory: string,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<UnbundleResult> {
+  const extract = tar.extract();
+  const extracted: BundleFileEntry[] = [];
+  const progress: BundleProgress = { files: 0, bytes: 0 };
+  let manifest: BundleManifest | null = null;
+
+  const input = fs.createReadStream(bundleFile);
+  input.on('error', error => extract.destroy(error));
+  input.pipe(extract as unknown as NodeJS.WritableStream);
+
+  try {
+    for await (const entry of extract) {
+      if (entry.header.name === BUNDLE_MANIFEST_NAME) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of entry) {
+          chunks.push(chunk as Buffer);
+        }
+        manifest = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        continue;
+      }
+
+      const relativePath = getSafeRelativePath(entry.header.name);
+      if (entry.header.type !== 'file' || !relativePath) {
+        entry.resume();
+        continue;
+      }
+
+      const targetPath = path.join(targetDirectory, relativePath);
+      const hasher = new IntegrityHasher();
+      progress.current = relativePath;
+      onProgress?.({ ...progress });
+
+      // 包清单与目标目录中已有的清单合并，避免覆盖离线端已有的记录
+      if (relativePath === PACKAGE_MANIFEST_NAME) {
+        const chunks: Buffer[] = [];
+        await pipeline(stream.Readable.from(entry), hasher, new stream.Writable({
+          write(chunk, _encoding, callback) {
+            chunks.push(chunk);
+            callback();
+          }
+        }));
+        const targetManifest = await PackageManifest.load(targetDirectory);
+        targetManifest.merge(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        await targetManifest.save();
+
+        extracted.push({ path: relativePath, size: hasher.size, sha512: hasher.getIntegrity('sha512')! });
+        progress.files++;
+        progress.bytes += hasher.size;
+        onProgress?.({ ...progress });
+        continue;
+      }
+
+      await fs.ensureDir(path.dirname(targetPath));
+      // 通过异步迭代读取条目，文件被截断时错误才能传递到pipeline
+      await pipeline(stream.Readable.from(entry), hasher, fs.createWriteStream(targetPath));
+
+      extracted.push({ path: relativePath, size: hasher.size, sha512: hasher.getIntegrity('sha512')! });
+      progress.files++;
+      progress.bytes += hasher.size;
+      onProgress?.({ ...progress });
+    }
+  } catch (error) {
+    throw new Error(`读取bundle失败，文件可能被截断或损坏: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return verifyExtractedFiles(manifest, extracted, targetDirectory);
+}
+
+async function verifyExtractedFiles(
+  manifest: BundleManifest | null,
+  extracted: BundleFileEntry[],
+  targetDirectory: string
+): Promise<UnbundleResult> {
+  const result: UnbundleResult = { manifest, extracted, missing: [], corrupted: [], unexpected: [] };
+
+  if (!manifest) {
+    return result;
+  }
+
+  const extractedMap = new Map(extracted.map(entry => [entry.path, entry]));
+  const expectedPaths = new Set<string>();
+
+  for (const expected of manifest.files) {
+    expectedPaths.add(expected.path);
+    const actual = extractedMap.get(expected.path);
+
+    if (!actual) {
+      result.missing.push(expected.path);
+    } else if (actual.size !== expected.size || actual.sha512 !== expected.sha512) {
+      result.corrupted.push(expected.path);
+      // 包清单已合并到目标目录中，不能删除
+      if (expected.path !== PACKAGE_MANIFEST_NAME) {
+        await fs.remove(path.join(targetDirectory, expected.path)).catch(() => {});
+      }
+    }
+  }
+
+  extracted.forEach(entry => {
+    if (!expectedPaths.has(entry.path)) {
+      result.unexpected.push(entry.path);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 选出离线端缺失的tgz文件及其packument
+ */
+async function selectDeltaFiles(
+  directory: string,
+  inventory: Inventory
+): Promise<{ includedFiles: Set<string>; skippedVersions: number }> {
+  const storedPackages = await scanStoredPackages(directory);
+  const includedFiles = new Set<string>();
+  let skippedVersions = 0;
+
+  for (const storedPackage of storedPackages.values()) {
+    for (const tarball of storedPackage.tarballs.values()) {
+      const integrity = await hashFile(tarball.tarballPath);
+      if (inventory.has({ name: tarball.name, version: tarball.version, integrity })) {
+        skippedVersions++;
+        continue;
+      }
+
+      includedFiles.add(getManifestPath(directory, tarball.tarballPath));
+      includedFiles.add(getManifestPath(directory, path.join(tarball.packageDir, 'package.json')));
+    }
+  }
+
+  return { includedFiles, skippedVersions };
+}
+
+/**
+ * 递归列出目录下的所有文件（相对路径，使用 / 分隔）
+ */
+async function listFiles(directory: string, excludePath?: string, base = ''): Promise<string[]> {
+  const files: string[] = [];
+  const items = (await fs.readdir(path.join(directory, base))).sort();
+
+  for (const item of items) {
+    const relativePath = base ? `${base}/${item}` : item;
+    const fullPath = path.join(directory, relativePath);
+    const stat = await fs.lstat(fullPath);
+
+    if (stat.isDirectory()) {
+      files.push(...await listFiles(directory, excludePath, relativePath));
+    } else if (stat.isFile() && fullPath !== excludePath && !item.endsWith('.partial')) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+// 只解压packages/下的文件，拒绝绝对路径和 .. 跳出目标目录
+function getSafeRelativePath(entryName: string): string | null {
+  const normalized = path.posix.normalize(entryName.replace(/\\/g, '/'));
+  if (!normalized.startsWith(`${BUNDLE_ROOT}/`)) {
+    return null;
+  }
+
+  const relativePath = normalized.slice(BUNDLE_ROOT.length + 1);
+  if (!relativePath || relativePath.startsWith('../') || path.posix.isAbsolute(relativePath)) {
+    return null;
+  }
+  return relativePath;
+}
@@ -0,0 +1,7 @@
+/**
+ * commander的参数收集函数，支持多次指定同一选项和逗号分隔的多个值
+ * 如 --exclude "@types/*" --exclude eslint,prettier
+ */
+export function collectList(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(',').map(item => item.trim()).filter(Boolean)];
+}
@@ -0,0 +1,323 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { networkOptimizer } from './networkOptimizer';
+import { failedPackageManager } from './failedPackageManager';
+import { RegistryResolver } from './registry';
+import { NetworkConfig, NetworkSettings, configureNetwork } from './proxy';
+import { RewriteConfig, validateRewriteRule } from './rewrite';
+import { VersionPolicyConfig, normalizeVersionPolicy } from './versionPolicy';
+import { LayoutConfig, validateLayout } from './storageLayout';
+
+export const CONFIG_FILE_NAMES = ['.tgzboxrc', 'tgz-box.config.json'];
+
+export interface TgzBoxConfig {
+  registry?: string;
+  // 默认registry失败时按顺序尝试的备用镜像
+  mirrors: string[];
+  // tgz文件输出目录，相对路径基于所在配置文件的目录
+  outDir?: string;
+  // 新输出目录使用的存储布局，未设置的项沿用输出目录已有的布局
+  layout: Partial<LayoutConfig>;
+  concurrency: {
+    download: number;
+    retry: number;
+    check: number;
+    metadata: number;
+  };
+  retries: {
+    // 单个包下载失败后的立即重试次数
+    download: number;
+    // 所有包下载完成后，对失败包的重试轮数
+    rounds: number;
+    // registry元数据请求的重试次数
+    request: number;
+  };
+  timeouts: {
+    download: number;
+    request: number;
+  };
+  circuitBreaker: {
+    errorThreshold: number;
+    resetTimeout: number;
+    minRequests: number;
+  };
+  majorVersions: {
+    // install完成后是否按版本策略自动下载额外的版本
+    enabled: boolean;
+    // 版本策略未设置includePrerelease时使用
+    includePrerelease: boolean;
+  };
+  // 额外下载哪些版本，可按包名通配符分别设置
+  versionPolicy: VersionPolicyConfig;
+  filters: {
+    include: string[];
+    exclude: string[];
+  };
+  // 代理和证书，未配置的项使用.npmrc和环境变量；cafile的相对路径基于所在配置文件的目录
+  network: NetworkConfig;
+  // lock文件中resolved地址的改写规则
+  rewrites: RewriteConfig;
+}
+
+export type ConfigOverrides = {
+  [K in keyof TgzBoxConfig]?: TgzBoxConfig[K] extends Record<string, any> ? Partial<TgzBoxConfig[K]> : TgzBoxConfig[K];
+};
+
+export interface ResolvedConfig {
+  config: TgzBoxConfig;
+  // 生效的配置文件，按优先级从低到高排列
+  files: string[];
+}
+
+export const DEFAULT_CONFIG: TgzBoxConfig = {
+  mirrors: [],
+  layout: {},
+  concurrency: {
+    download: 30,
+    retry: 10,
+    check: 8,
+    metadata: 15
+  },
+  retries: {
+    download: 3,
+    rounds: 2,
+    request: 5
+  },
+  timeouts: {
+    download: 30000,
+    request: 30000
+  },
+  circuitBreaker: {
+    errorThreshold: 0.5,
+    resetTimeout: 60000,
+    minRequests: 20
+  },
+  majorVersions: {
+    enabled: true,
+    includePrerelease: true
+  },
+  versionPolicy: {
+    default: 'latest-per-major',
+    packages: {}
+  },
+  filters: {
+    include: [],
+    exclude: []
+  },
+  network: {},
+  rewrites: {
+    rules: [],
+    reverse: []
+  }
+};
+
+/**
+ * 从项目目录向上查找配置文件直到用户主目录，越靠近项目目录的配置优先级越高
+ * 命令行参数通过overrides传入，优先级最高
+ */
+export async function loadConfig(projectDir: string, overrides: ConfigOverrides = {}): Promise<ResolvedConfig> {
+  const files = await findConfigFiles(path.resolve(projectDir));
+  let config = cloneConfig(DEFAULT_CONFIG);
+
+  for (const file of files) {
+    const fileConfig = await readConfigFile(file);
+    if (typeof fileConfig.outDir === 'string') {
+      fileConfig.outDir = path.resolve(path.dirname(file), fileConfig.outDir);
+    }
+    if (typeof fileConfig.network?.cafile === 'string') {
+      fileConfig.network.cafile = path.resolve(path.dirname(file), fileConfig.network.cafile);
+    }
+    config = mergeConfig(config, fileConfig);
+  }
+
+  config = mergeConfig(config, overrides);
+  validateConfig(config);
+
+  return { config, files };
+}
+
+export interface RuntimeContext {
+  // 元数据请求按地址携带对应registry的凭据
+  registryResolver?: RegistryResolver;
+  // 代理和证书设置，需要在创建下载器之前应用
+  network?: NetworkSettings;
+}
+
+/**
+ * 将网络和重试相关的配置应用到全局的网络优化器和失败包管理器
+ */
+export function applyRuntimeConfig(config: TgzBoxConfig, context: RuntimeContext = {}): void {
+  const { registryResolver, network } = context;
+  if (network) {
+    configureNetwork(network);
+  }
+  networkOptimizer.configure({
+    timeout: config.timeouts.request,
+    maxRetries: config.retries.request,
+    errorThreshold: config.circuitBreaker.errorThreshold,
+    circuitBreakerTimeout: config.circuitBreaker.resetTimeout,
+    minRequests: config.circuitBreaker.minRequests,
+    authHeaders: registryResolver ? url => registryResolver.getAuthHeaders(url) : undefined,
+    mirrorUrls: registryResolver ? url => registryResolver.getMirrorUrls(url) : undefined
+  });
+  failedPackageManager.setMaxRetries(config.retries.rounds);
+}
+
+/**
+ * 配置中的版本策略，默认策略未设置includePrerelease时沿用majorVersions.includePrerelease
+ */
+export function getVersionPolicyConfig(config: TgzBoxConfig): VersionPolicyConfig {
+  const defaultPolicy = normalizeVersionPolicy(config.versionPolicy.default);
+  return {
+    ...config.versionPolicy,
+    default: { ...defaultPolicy, includePrerelease: defaultPolicy.includePrerelease ?? config.majorVersions.includePrerelease }
+  };
+}
+
+async function findConfigFiles(projectDir: string): Promise<string[]> {
+  const homeDir = os.homedir();
+  const directories: string[] = [];
+  let current = projectDir;
+
+  while (true) {
+    directories.push(current);
+    const parent = path.dirname(current);
+    if (current === homeDir || parent === current) {
+      break;
+    }
+    current = parent;
+  }
+
+  // 项目不在用户主目录下时，仍然读取主目录中的配置
+  if (!directories.includes(homeDir)) {
+    directories.push(homeDir);
+  }
+
+  const files: string[] = [];
+  for (const directory of directories) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const file = path.join(directory, fileName);
+      if (await fs.pathExists(file)) {
+        files.push(file);
+      }
+    }
+  }
+
+  return files.reverse();
+}
+
+async function readConfigFile(file: string): Promise<ConfigOverrides> {
+  try {
+    const content = await fs.readJSON(file);
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error('配置内容必须是对象');
+    }
+    return content;
+  } catch (error) {
+    throw new Error(`读取配置文件失败: ${file} - ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function mergeConfig(base: TgzBoxConfig, overrides: ConfigOverrides): TgzBoxConfig {
+  const result: any = cloneConfig(base);
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    if (isPlainObject(value) && isPlainObject(result[key])) {
+      Object.entries(value).forEach(([childKey, childValue]) => {
+        if (childValue !== undefined) {
+          result[key][childKey] = childValue;
+        }
+      });
+    } else {
+      result[key] = value;
+    }
+  });
+
+  return result;
+}
+
+function validateConfig(config: TgzBoxConfig): void {
+  const positiveIntegers: Array<[string, number]> = [
+    ['concurrency.download', config.concurrency.download],
+    ['concurrency.retry', config.concurrency.retry],
+    ['concurrency.check', config.concurrency.check],
+    ['concurrency.metadata', config.concurrency.metadata],
+    ['timeouts.download', config.timeouts.download],
+    ['timeouts.request', config.timeouts.request],
+    ['circuitBreaker.resetTimeout', config.circuitBreaker.resetTimeout]
+  ];
+  const nonNegativeIntegers: Array<[string, number]> = [
+    ['retries.download', config.retries.download],
+    ['retries.rounds', config.retries.rounds],
+    ['retries.request', config.retries.request],
+    ['circuitBreaker.minRequests', config.circuitBreaker.minRequests]
+  ];
+
+  positiveIntegers.forEach(([key, value]) => {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`配置项 ${key} 必须是正整数: ${value}`);
+    }
+  });
+  nonNegativeIntegers.forEach(([key, value]) => {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`配置项 ${key} 必须是非负整数: ${value}`);
+    }
+  });
+
+  const threshold = config.circuitBreaker.errorThreshold;
+  if (typeof threshold !== 'number' || threshold <= 0 || threshold > 1) {
+    throw new Error(`配置项 circuitBreaker.errorThreshold 必须在 (0, 1] 之间: ${threshold}`);
+  }
+
+  (['include', 'exclude'] as const).forEach(key => {
+    const patterns = config.filters[key];
+    if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+      throw new Error(`配置项 filters.${key} 必须是字符串数组`);
+    }
+  });
+
+  if (!Array.isArray(config.mirrors) || config.mirrors.some(mirror => typeof mirror !== 'string' || !/^https?:\/\//.test(mirror))) {
+    throw new Error('配置项 mirrors 必须是http(s)地址数组');
+  }
+
+  (['rules', 'reverse'] as const).forEach(key => {
+    const rules = config.rewrites[key];
+    if (!Array.isArray(rules)) {
+      throw new Error(`配置项 rewrites.${key} 必须是数组`);
+    }
+    rules.forEach(validateRewriteRule);
+  });
+
+  if (!isPlainObject(config.layout)) {
+    throw new Error('配置项 layout 必须是对象，如 { "type": "flat", "nested": "index" }');
+  }
+  validateLayout(config.layout);
+
+  normalizeVersionPolicy(config.versionPolicy.default);
+  if (!isPlainObject(config.versionPolicy.packages)) {
+    throw new Error('配置项 versionPolicy.packages 必须是以包名通配符为键的对象');
+  }
+  Object.values(config.versionPolicy.packages).forEach(normalizeVersionPolicy);
+
+  (['proxy', 'httpsProxy', 'noProxy', 'cafile'] as const).forEach(key => {
+    const value = config.network[key];
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`配置项 network.${key} 必须是字符串`);
+    }
+  });
+  if (config.network.strictSSL !== undefined && typeof config.network.strictSSL !== 'boolean') {
+    throw new Error(`配置项 network.strictSSL 必须是布尔值: ${config.network.strictSSL}`);
+  }
+}
+
+function cloneConfig(config: TgzBoxConfig): TgzBoxConfig {
+  return JSON.parse(JSON.stringify(config));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
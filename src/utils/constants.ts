@@ -1,14 +1,18 @@
+import os from 'os';
 import path from 'path';
 
-export const PACKAGES_DIR = path.resolve(process.cwd(), 'packages');
-export const PACKAGE_JSON_PATH = path.resolve(process.cwd(), 'package.json');
-export const PACKAGE_LOCK_PATH = path.resolve(process.cwd(), 'package-lock.json');
-export const TEMP_DIR = path.resolve(process.cwd(), '.tgz-box-temp');
-export const TEMP_PACKAGE_JSON = path.resolve(TEMP_DIR, 'package.json');
-export const TEMP_PACKAGE_LOCK = path.resolve(TEMP_DIR, 'package-lock.json');
+export const DEFAULT_PACKAGES_DIR = 'packages';
+export const PACKAGE_JSON_FILE = 'package.json';
+export const PACKAGE_LOCK_FILE = 'package-lock.json';
+export const YARN_LOCK_FILE = 'yarn.lock';
+export const PNPM_LOCK_FILE = 'pnpm-lock.yaml';
+export const BUN_LOCK_FILE = 'bun.lock';
+
+// 临时目录放在系统临时目录中，按进程区分，不写入用户项目
+export const TEMP_DIR = path.join(os.tmpdir(), `tgz-box-${process.pid}`);
 
 export const BASE_PACKAGE_CONTENT = {
   name: 'temp-package',
   version: '1.0.0',
   dependencies: {}
-};
\ No newline at end of file
+};
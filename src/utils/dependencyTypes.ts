@@ -0,0 +1,51 @@
+import { PackageItem } from '../types';
+import { detectLockFileType } from './packageParser';
+
+export const OMIT_TYPES = ['dev', 'optional', 'peer'] as const;
+
+export type OmitType = typeof OMIT_TYPES[number];
+
+/**
+ * 解析 --omit 参数，支持多次指定和逗号分隔
+ */
+export function parseOmitTypes(values: string[] = []): Set<OmitType> {
+  const types = new Set<OmitType>();
+  values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean).forEach(value => {
+    if (!OMIT_TYPES.includes(value as OmitType)) {
+      throw new Error(`--omit 只支持 ${OMIT_TYPES.join('、')}: ${value}`);
+    }
+    types.add(value as OmitType);
+  });
+  return types;
+}
+
+/**
+ * 与npm的 --omit 规则一致：devOptional的包只有同时排除dev和optional时才跳过
+ */
+export function isOmitted(pkg: PackageItem, omit: Set<OmitType>): boolean {
+  return Boolean(
+    (pkg.dev && omit.has('dev'))
+    || (pkg.optional && omit.has('optional'))
+    || (pkg.devOptional && omit.has('dev') && omit.has('optional'))
+    || (pkg.peer && omit.has('peer'))
+  );
+}
+
+/**
+ * lock文件中记录的依赖类型标记，未记录的类型无法按 --omit 跳过
+ * Yarn v1的optional按optionalDependencies的引用推断；yarn berry和bun只把带平台限制的包标记为optional，不视为记录
+ */
+export function getRecordedOmitTypes(lockContent: string): OmitType[] {
+  switch (detectLockFileType(lockContent)) {
+    case 'npm':
+      // lockfileVersion 1没有peer标记
+      return JSON.parse(lockContent).packages ? ['dev', 'optional', 'peer'] : ['dev', 'optional'];
+    case 'pnpm':
+      // v9只在snapshots中记录optional
+      return /^snapshots:/m.test(lockContent) ? ['optional'] : ['dev', 'optional'];
+    case 'yarn-classic':
+      return ['optional'];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,193 @@
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import { PackageItem } from '../types';
+import { Inventory } from './inventory';
+import { getTarballFileName } from './downloader';
+import { getLocalSourcePath } from './packageSource';
+import { networkOptimizer } from './networkOptimizer';
+import { formatBytes } from './fileUtils';
+import { maskSecrets } from './auth';
+import { PackageStore, loadPackageStore } from './packageStore';
+import { findStoredTarball, getPackageKey } from './storageLayout';
+
+// lock: lock文件中的版本，policy: 版本策略选出的额外版本
+export type PlanReason = 'lock' | 'policy';
+
+// download: 需要下载，present: 输出目录中已存在，inventory: 离线端清单中已有
+export type PlanStatus = 'download' | 'present' | 'inventory';
+
+// unpackedSize: packument中的dist.unpackedSize（解压后的大小），content-length: HEAD请求，file: 本地文件大小
+export type PlanSizeSource = 'unpackedSize' | 'content-length' | 'file';
+
+export interface PlanEntry {
+  name: string;
+  version: string;
+  // 相对于输出目录的包目录
+  path: string;
+  resolved: string;
+  reason: PlanReason;
+  status: PlanStatus;
+  size?: number;
+  sizeSource?: PlanSizeSource;
+}
+
+export interface PlanTotals {
+  versions: number;
+  download: number;
+  present: number;
+  inventory: number;
+  // 需要下载的版本的预计大小，不含大小未知的版本
+  downloadSize: number;
+  unknownSize: number;
+}
+
+const STATUS_LABELS: Record<PlanStatus, string> = {
+  download: '需要下载',
+  present: '已存在',
+  inventory: '离线端已有'
+};
+
+/**
+ * dry-run模式下的下载计划，记录每个版本的状态和预计大小，不写入输出目录
+ */
+export class DownloadPlan {
+  readonly entries: PlanEntry[] = [];
+  private keys = new Set<string>();
+  // 获取版本信息时得到的dist.unpackedSize，键为 name@version
+  private knownSizes = new Map<string, number>();
+  // 未屏蔽凭据的原始地址，用于获取大小
+  private urls = new Map<PlanEntry, string>();
+  // 输出目录的清单和存储布局，用于判断版本是否已存在
+  private store?: Promise<PackageStore>;
+
+  constructor(readonly outputDir: string, private inventory?: Inventory) {}
+
+  /**
+   * 加入一个版本，同一个 name@version 只记录第一次加入时的来源
+   */
+  async add(pkg: PackageItem, reason: PlanReason): Promise<void> {
+    const key = getPackageKey(pkg);
+    if (this.keys.has(key)) {
+      return;
+    }
+    this.keys.add(key);
+
+    this.store = this.store || loadPackageStore(this.outputDir);
+    const { layout, manifest } = await this.store;
+    const tarballPath = pkg.version
+      ? await findStoredTarball(this.outputDir, layout.type, manifest, pkg, getTarballFileName(pkg))
+      : undefined;
+    const present = Boolean(tarballPath);
+    const entry: PlanEntry = {
+      name: pkg.name,
+      version: pkg.version,
+      path: pkg.path,
+      resolved: maskSecrets(pkg.resolved),
+      reason,
+      status: present ? 'present' : this.inventory?.has(pkg) ? 'inventory' : 'download'
+    };
+    if (tarballPath) {
+      entry.size = (await fs.stat(tarballPath)).size;
+      entry.sizeSource = 'file';
+    }
+    this.entries.push(entry);
+    this.urls.set(entry, pkg.resolved);
+  }
+
+  addKnownSizes(name: string, sizes: Map<string, number>): void {
+    sizes.forEach((size, version) => this.knownSizes.set(`${name}@${version}`, size));
+  }
+
+  /**
+   * 补充缺少的大小：优先使用dist.unpackedSize，其次是HEAD请求的Content-Length，本地tgz文件使用文件大小
+   */
+  async estimateSizes(): Promise<void> {
+    const pending = this.entries.filter(entry => entry.size === undefined);
+    const remote: PlanEntry[] = [];
+
+    for (const entry of pending) {
+      const knownSize = this.knownSizes.get(`${entry.name}@${entry.version}`);
+      const url = this.urls.get(entry) || entry.resolved;
+      const localPath = getLocalSourcePath({ ...entry, resolved: url });
+      if (knownSize !== undefined) {
+        entry.size = knownSize;
+        entry.sizeSource = 'unpackedSize';
+      } else if (/^https?:\/\//.test(url)) {
+        remote.push(entry);
+      } else if (localPath.endsWith('.tgz') && await fs.pathExists(localPath)) {
+        entry.size = (await fs.stat(localPath)).size;
+        entry.sizeSource = 'file';
+      }
+    }
+
+    const sizes = await networkOptimizer.getContentLengths(remote.map(entry => this.urls.get(entry)!));
+    remote.forEach(entry => {
+      const url = this.urls.get(entry)!;
+      if (sizes.has(url)) {
+        entry.size = sizes.get(url);
+        entry.sizeSource = 'content-length';
+      }
+    });
+  }
+
+  getTotals(): PlanTotals {
+    const download = this.entries.filter(entry => entry.status === 'download');
+    return {
+      versions: this.entries.length,
+      download: download.length,
+      present: this.entries.filter(entry => entry.status === 'present').length,
+      inventory: this.entries.filter(entry => entry.status === 'inventory').length,
+      downloadSize: download.reduce((sum, entry) => sum + (entry.size || 0), 0),
+      unknownSize: download.filter(entry => entry.size === undefined).length
+    };
+  }
+
+  /**
+   * 按包输出每个版本的来源、状态和大小，最后输出合计
+   */
+  print(): void {
+    console.log(chalk.blue.bold(`\n📋 下载计划（dry-run，不会写入 ${this.outputDir}）`));
+
+    const byPackage = new Map<string, PlanEntry[]>();
+    this.entries.forEach(entry => byPackage.set(entry.name, [...(byPackage.get(entry.name) || []), entry]));
+    Array.from(byPackage.keys()).sort().forEach(name => {
+      console.log(chalk.white(`  ${name}`));
+      byPackage.get(name)!.forEach(entry => {
+        const color = entry.status === 'download' ? chalk.green : chalk.gray;
+        const size = entry.size === undefined ? '大小未知' : `${formatBytes(entry.size)}${entry.sizeSource === 'unpackedSize' ? '*' : ''}`;
+        console.log(color(`    ${entry.version || '(未知版本)'}  ${entry.reason === 'lock' ? 'lock文件' : '版本策略'}  ${STATUS_LABELS[entry.status]}  ${size}`));
+      });
+    });
+
+    const totals = this.getTotals();
+    const unknown = totals.unknownSize > 0 ? `，${totals.unknownSize} 个大小未知` : '';
+    console.log(chalk.blue.bold(`\n📊 合计 ${byPackage.size} 个包 ${totals.versions} 个版本：需要下载 ${totals.download} 个（约 ${formatBytes(totals.downloadSize)}${unknown}），已存在 ${totals.present} 个，离线端已有 ${totals.inventory} 个`));
+    if (this.entries.some(entry => entry.sizeSource === 'unpackedSize')) {
+      console.log(chalk.gray('   * 为packument中的dist.unpackedSize（解压后的大小），实际下载的tgz文件通常更小'));
+    }
+  }
+
+  async write(filePath: string): Promise<void> {
+    await fs.outputJSON(filePath, {
+      outputDir: this.outputDir,
+      generatedAt: new Date().toISOString(),
+      totals: this.getTotals(),
+      entries: this.entries
+    }, { spaces: 2 });
+  }
+}
+
+/**
+ * 估算大小后输出下载计划，指定文件时同时导出为JSON
+ */
+export async function reportDownloadPlan(plan: DownloadPlan, outputFile?: string): Promise<void> {
+  console.log(chalk.gray(`\n📏 正在估算 ${plan.entries.length} 个版本的大小...`));
+  await plan.estimateSizes();
+  plan.print();
+  if (outputFile) {
+    const filePath = path.resolve(outputFile);
+    await plan.write(filePath);
+    console.log(chalk.gray(`📝 已导出下载计划: ${filePath}`));
+  }
+}
@@ -1,15 +1,29 @@
-import axios from 'axios';
 import download from 'download';
 import fs from 'fs-extra';
 import path from 'path';
+import { promisify } from 'util';
+import stream from 'stream';
 import { PackageItem, DownloadProgress } from '../types';
-import { PACKAGES_DIR } from './constants';
+import { DEFAULT_PACKAGES_DIR, TEMP_DIR } from './constants';
 import { ensureDirectoryExists } from './fileUtils';
 import { networkOptimizer } from './networkOptimizer';
 import { failedPackageManager } from './failedPackageManager';
+import { IntegrityError, IntegrityHasher, getIntegrityAlgorithms, hashFile, shasumToIntegrity } from './integrity';
+import { Inventory } from './inventory';
+import { PackageManifest, getManifestPath } from './packageManifest';
+import { RegistryResolver, buildPackumentUrl, shouldTryNextMirror } from './registry';
+import { maskSecrets } from './auth';
+import { createNetworkAgents, getNetworkSettings } from './proxy';
+import { createLocalPackument, packLocalSource, readTarballManifest } from './sourcePacker';
+import { CONTENT_DIR, DEFAULT_LAYOUT, LayoutConfig, NestedViewWriter, findStoredTarball, getPackageKey, getPackumentPath, getTarballPath, resolveLayout } from './storageLayout';
+
+const pipeline = promisify(stream.pipeline);
+
+// 下载完成的包最迟在该时间后写入manifest.json和嵌套视图，中断时已下载的包仍有记录
+const CHECKPOINT_INTERVAL = 5000;
 
 // 信号量类，用于控制并发
-class Semaphore {
+export class Semaphore {
   private permits: number;
   private waitQueue: Array<() => void> = [];
 
@@ -40,6 +54,23 @@ class Semaphore {
   }
 }
 
+export interface DownloaderOptions {
+  // 离线端已有包的清单，清单中已有的版本不再下载
+  inventory?: Inventory;
+  // 来源项目，记录到packages/manifest.json中
+  source?: string;
+  // 批量下载多个项目时每个包的来源项目，键为getPackageKey，优先于source
+  packageSources?: Map<string, string[]>;
+  // tgz文件的输出目录，默认为当前目录下的packages
+  outputDir?: string;
+  maxRetries?: number;
+  timeout?: number;
+  // lock文件中的地址不是registry格式时，用于确定packument地址
+  registryResolver?: RegistryResolver;
+  // 存储布局，只对新的输出目录生效，已有目录沿用manifest.json中记录的布局
+  layout?: Partial<LayoutConfig>;
+}
+
 export class PackageDownloader {
   private concurrency: number;
   private downloadQueue: Array<() => Promise<void>> = [];
@@ -47,31 +78,49 @@ export class PackageDownloader {
   private progress: DownloadProgress;
   private onProgress?: (progress: DownloadProgress) => void;
   private maxRetries: number = 3;
+  private timeout: number = 30000;
   private downloadAgent: any;
+  private inventory?: Inventory;
+  private inventorySkipped = 0;
+  private servedRegistries = new Map<string, string>();
+  private source?: string;
+  private packageSources?: Map<string, string[]>;
+  private manifest?: PackageManifest;
+  private outputDir: string;
+  private registryResolver: RegistryResolver;
+  private requestedLayout?: Partial<LayoutConfig>;
+  private layout: LayoutConfig = DEFAULT_LAYOUT;
+  private nestedView?: NestedViewWriter;
+  // flat和content布局中同一个 name@version 只保存一份，相同版本依次处理，后处理的直接使用已保存的文件
+  private storing = new Map<string, Promise<void>>();
+  // 同一个packument文件的读取合并写入依次进行，flat和content布局中同名包的所有版本共用 <name>/package.json
+  private packumentWrites = new Map<string, Promise<void>>();
+  private checkpointTimer?: NodeJS.Timeout;
+  private checkpointing: Promise<void> = Promise.resolve();
 
-  constructor(concurrency = 30) { // 提高默认并发数
+  constructor(concurrency = 30, options: DownloaderOptions = {}) { // 提高默认并发数
     this.concurrency = concurrency;
+    this.inventory = options.inventory;
+    this.source = options.source;
+    this.packageSources = options.packageSources;
+    this.outputDir = path.resolve(options.outputDir || DEFAULT_PACKAGES_DIR);
+    this.maxRetries = options.maxRetries ?? this.maxRetries;
+    this.timeout = options.timeout ?? this.timeout;
+    this.registryResolver = options.registryResolver || new RegistryResolver();
+    this.requestedLayout = options.layout;
     this.progress = {
       total: 0,
       completed: 0,
       failed: 0
     };
     
-    // 创建优化的下载代理
-    this.downloadAgent = {
-      http: new (require('http').Agent)({
-        keepAlive: true,
-        keepAliveMsecs: 30000,
-        maxSockets: concurrency * 2,
-        maxFreeSockets: 10
-      }),
-      https: new (require('https').Agent)({
-        keepAlive: true,
-        keepAliveMsecs: 30000,
-        maxSockets: concurrency * 2,
-        maxFreeSockets: 10
-      })
-    };
+    // 创建优化的下载代理，使用当前的代理和证书设置
+    this.downloadAgent = createNetworkAgents({
+      keepAlive: true,
+      keepAliveMsecs: 30000,
+      maxSockets: concurrency * 2,
+      maxFreeSockets: 10
+    });
   }
 
   setProgressCallback(callback: (progress: DownloadProgress) => void) {
@@ -79,7 +128,11 @@ export class PackageDownloader {
   }
 
   async downloadPackages(packages: PackageItem[], skipFailed: boolean = true): Promise<PackageItem[]> {
-    ensureDirectoryExists(PACKAGES_DIR);
+    ensureDirectoryExists(this.outputDir);
+    this.manifest = await PackageManifest.load(this.outputDir);
+    this.layout = await resolveLayout(this.outputDir, this.manifest, this.requestedLayout);
+    this.manifest.setLayout(this.layout);
+    this.nestedView = await NestedViewWriter.load(this.outputDir, this.layout);
     
     // 过滤出需要下载的包（跳过已失败的包）
     const packagesToDownload = skipFailed 
@@ -110,12 +163,13 @@ export class PackageDownloader {
           // 如果之前失败过，现在成功了，从失败缓存中移除
           failedPackageManager.removeSuccessfulPackage(pkg);
           this.updateProgress();
+          this.scheduleCheckpoint();
         } catch (error: any) {
           this.progress.failed++;
           const failedPkg = { ...pkg, error: error.message };
           failedPackages.push(failedPkg);
           // 添加到失败包管理器
-          failedPackageManager.addFailedPackage(pkg, error.message);
+          failedPackageManager.addFailedPackage(pkg, error.message, error instanceof IntegrityError);
           this.updateProgress();
         } finally {
           release();
@@ -124,14 +178,44 @@ export class PackageDownloader {
     });
 
     await Promise.allSettled(downloadPromises);
+    clearTimeout(this.checkpointTimer);
+    this.checkpointTimer = undefined;
+    await this.checkpoint();
     return failedPackages;
   }
 
+  /**
+   * 包下载完成后安排一次后台保存，保存失败时只输出警告，在下一次保存时重试
+   */
+  private scheduleCheckpoint(): void {
+    if (this.checkpointTimer) {
+      return;
+    }
+    this.checkpointTimer = setTimeout(() => {
+      this.checkpointTimer = undefined;
+      this.checkpoint().catch(error => {
+        console.warn(maskSecrets(`⚠️  保存 manifest.json 失败: ${error instanceof Error ? error.message : String(error)}`));
+      });
+    }, CHECKPOINT_INTERVAL);
+  }
+
+  /**
+   * 保存manifest.json和嵌套视图，多次保存依次进行
+   */
+  private checkpoint(): Promise<void> {
+    this.checkpointing = this.checkpointing.catch(() => {}).then(async () => {
+      await this.manifest?.save();
+      await this.nestedView?.save();
+    });
+    return this.checkpointing;
+  }
+
   private async downloadWithRetry(pkg: PackageItem, retryCount = 0): Promise<void> {
     try {
       await this.downloadSinglePackage(pkg);
     } catch (error) {
-      if (retryCount < this.maxRetries) {
+      // 完整性校验失败直接交给失败包管理器，在后续重试轮次中处理
+      if (retryCount < this.maxRetries && !(error instanceof IntegrityError)) {
         // 更新进度显示重试信息
         this.progress.current = `重试 ${retryCount + 1}/${this.maxRetries}: ${pkg.name}`;
         this.updateProgress();
@@ -147,22 +231,48 @@ export class PackageDownloader {
   }
 
   private async downloadSinglePackage(pkg: PackageItem): Promise<void> {
+    if (this.layout.type === 'nested') {
+      return this.storePackage(pkg);
+    }
+
+    const key = getPackageKey(pkg);
+    const current = (this.storing.get(key) || Promise.resolve())
+      .catch(() => {})
+      .then(() => this.storePackage(pkg));
+    this.storing.set(key, current);
+    return current;
+  }
+
+  private async storePackage(pkg: PackageItem): Promise<void> {
     this.progress.current = pkg.name;
     this.updateProgress();
 
-    const packageDir = path.join(PACKAGES_DIR, pkg.path);
-    ensureDirectoryExists(packageDir);
+    // 离线端已有该版本，无需下载
+    if (this.inventory?.has(pkg)) {
+      this.inventorySkipped++;
+      return;
+    }
+
+    // git依赖和本地依赖不经过registry，打包后保存
+    if (pkg.source === 'git' || pkg.source === 'file') {
+      return this.downloadLocalSource(pkg);
+    }
+
+    const fileName = getTarballFileName(pkg);
+    const packageJsonPath = path.join(this.outputDir, getPackumentPath(this.layout.type, pkg));
+    const existingPath = await findStoredTarball(this.outputDir, this.layout.type, this.manifest, pkg, fileName);
+    const partialPath = this.getPartialPath(pkg, fileName);
+    ensureDirectoryExists(path.dirname(packageJsonPath));
+    ensureDirectoryExists(path.dirname(partialPath));
 
     try {
-      // 检查是否已存在特定版本的文件
-      const packageJsonPath = path.join(packageDir, 'package.json');
-      const expectedTgzName = `${pkg.name}-${pkg.version}.tgz`;
-      const expectedTgzPath = path.join(packageDir, expectedTgzName);
-      
-      if (await fs.pathExists(packageJsonPath) && await fs.pathExists(expectedTgzPath)) {
+      // 检查是否已存在特定版本的文件，packument中缺少该版本时重新下载以补充
+      if (existingPath && await fs.pathExists(packageJsonPath)) {
         try {
           const existingContent = await fs.readJSON(packageJsonPath);
-          if (existingContent && existingContent.name) {
+          if (existingContent && existingContent.name && existingContent.versions?.[pkg.version]) {
+            await this.recordExistingTarball(pkg, existingPath);
+            await this.nestedView?.add(pkg, fileName, existingPath, packageJsonPath);
             return; // 特定版本文件已存在且完整
           }
         } catch {
@@ -170,43 +280,301 @@ export class PackageDownloader {
         }
       }
       
-      // 使用优化的下载配置
-      const downloadOptions = {
-        agent: this.downloadAgent,
-        timeout: 30000, // 增加超时时间到30秒
-        retries: 3, // 增加重试次数
-        headers: {
-          'User-Agent': 'tgz-box-optimized/1.0.0',
-          'Connection': 'keep-alive'
+      // 依次尝试lock文件中的地址、registry和备用镜像，404/5xx/网络错误时切换到下一个
+      const candidates = this.registryResolver.getTarballCandidates(pkg);
+      let hasher: IntegrityHasher | undefined;
+      let served = candidates[0];
+      let lastError: unknown;
+      let attempts = 0;
+      for (const candidate of candidates) {
+        attempts++;
+        try {
+          hasher = await this.fetchTarball(candidate.url, pkg, partialPath);
+          served = candidate;
+          break;
+        } catch (error) {
+          lastError = error;
+          if (!shouldTryNextMirror(error)) {
+            break;
+          }
         }
-      };
+      }
+      if (!hasher) {
+        throw attempts > 1 && lastError instanceof Error
+          ? new Error(`${lastError.message} (已尝试 ${attempts} 个地址)`)
+          : lastError;
+      }
       
-      // 下载tgz文件
-      await download(pkg.resolved, packageDir, downloadOptions);
+      if (!hasher.verify(pkg.integrity)) {
+        throw new IntegrityError(`lock文件integrity不匹配 (期望 ${pkg.integrity}, 实际 ${hasher.getIntegrity()})`);
+      }
       
-      // 获取并保存package.json（使用网络优化器）
-      const packageInfoUrl = pkg.resolved.split('/-/')[0];
-      const packageInfo = await networkOptimizer.getWithRetry(packageInfoUrl);
+      const tarballPath = this.getStoredTarballPath(pkg, fileName, hasher);
+      // tgz地址依赖在registry中没有元数据，根据tgz中的package.json生成packument
+      if (pkg.source === 'tarball') {
+        await this.writePackument(packageJsonPath, async () => {
+          const packageInfo = await this.createTarballPackument(partialPath, hasher!, served.url, packageJsonPath, fileName);
+          await fs.move(partialPath, tarballPath, { overwrite: true });
+          await fs.writeJSON(packageJsonPath, packageInfo, { spaces: 2 });
+        });
+      } else {
+        // 获取并保存package.json（使用网络优化器），从提供tgz的镜像获取
+        const packageInfoUrl = served === candidates[0]
+          ? this.getPackumentUrl(pkg)
+          : buildPackumentUrl(served.registry, pkg.name);
+        const packageInfo = await networkOptimizer.getWithRetry(packageInfoUrl);
+        
+        const dist = packageInfo?.versions?.[pkg.version]?.dist;
+        const registryIntegrity = dist?.integrity || shasumToIntegrity(dist?.shasum);
+        if (!hasher.verify(registryIntegrity)) {
+          throw new IntegrityError(`registry integrity不匹配 (期望 ${registryIntegrity}, 实际 ${hasher.getIntegrity()})`);
+        }
+        
+        await fs.move(partialPath, tarballPath, { overwrite: true });
+        await this.writePackument(packageJsonPath, () => fs.writeJSON(
+          packageJsonPath,
+          packageInfo,
+          { spaces: 2 }
+        ));
+      }
       
-      await fs.writeJSON(
-        packageJsonPath,
-        packageInfo,
-        { spaces: 2 }
-      );
+      this.manifest?.record({
+        name: pkg.name,
+        version: pkg.version,
+        path: getManifestPath(this.outputDir, tarballPath),
+        resolved: maskSecrets(served.url),
+        size: hasher.size,
+        integrity: hasher.getIntegrity('sha512')!,
+        downloadedAt: new Date().toISOString()
+      }, this.getSources(pkg));
+      await this.nestedView?.add(pkg, fileName, tarballPath, packageJsonPath);
+      this.servedRegistries.set(`${pkg.name}@${pkg.version}`, served.registry);
     } catch (error) {
       // 清理可能的部分下载文件
       try {
-        await fs.remove(packageDir);
+        await fs.remove(partialPath);
       } catch {
         // 忽略清理错误
       }
-      throw new Error(`下载失败: ${pkg.name}@${pkg.version} - ${error instanceof Error ? error.message : String(error)}`);
+      const message = maskSecrets(`下载失败: ${pkg.name}@${pkg.version} - ${error instanceof Error ? error.message : String(error)}`);
+      throw error instanceof IntegrityError ? new IntegrityError(message) : new Error(message);
     }
   }
 
+  /**
+   * git依赖clone到锁定的提交后打包，本地目录依赖直接打包，本地tgz文件直接复制
+   * lock文件中没有版本号时（如Yarn Berry、bun的git依赖）使用package.json中的版本
+   */
+  private async downloadLocalSource(pkg: PackageItem): Promise<void> {
+    const workDir = path.join(TEMP_DIR, 'sources', `${pkg.path.replace(/[\\/@]+/g, '_')}-${Date.now()}`);
+    let partialPath: string | undefined;
+
+    // git依赖锁定了提交，已打包过的版本无需重新clone；本地目录可能有改动，每次重新打包
+    if (pkg.source === 'git' && pkg.version) {
+      const fileName = getTarballFileName(pkg);
+      const packageJsonPath = path.join(this.outputDir, getPackumentPath(this.layout.type, pkg));
+      const existingPath = await findStoredTarball(this.outputDir, this.layout.type, this.manifest, pkg, fileName);
+      const existingContent = await fs.readJSON(packageJsonPath).catch(() => undefined);
+      if (existingPath && existingContent?.versions?.[pkg.version]) {
+        await this.recordExistingTarball(pkg, existingPath);
+        await this.nestedView?.add(pkg, fileName, existingPath, packageJsonPath);
+        return;
+      }
+    }
+
+    try {
+      const packedPath = await packLocalSource(pkg, workDir);
+      const manifest = await readTarballManifest(packedPath);
+      const version = manifest.version || pkg.version;
+
+      const packedPkg = { ...pkg, version };
+      const fileName = getTarballFileName(packedPkg);
+      const packageJsonPath = path.join(this.outputDir, getPackumentPath(this.layout.type, packedPkg));
+      partialPath = this.getPartialPath(packedPkg, fileName);
+      ensureDirectoryExists(path.dirname(packageJsonPath));
+      ensureDirectoryExists(path.dirname(partialPath));
+
+      const hasher = new IntegrityHasher();
+      await pipeline(fs.createReadStream(packedPath), hasher, fs.createWriteStream(partialPath));
+      const tarballPath = this.getStoredTarballPath(packedPkg, fileName, hasher);
+      const storedPartialPath = partialPath;
+      await this.writePackument(packageJsonPath, async () => {
+        const packageInfo = await this.createTarballPackument(packedPath, hasher, pkg.resolved, packageJsonPath, fileName);
+        await fs.move(storedPartialPath, tarballPath, { overwrite: true });
+        await fs.writeJSON(packageJsonPath, packageInfo, { spaces: 2 });
+      });
+
+      this.manifest?.record({
+        name: pkg.name,
+        version,
+        path: getManifestPath(this.outputDir, tarballPath),
+        resolved: maskSecrets(pkg.resolved),
+        size: hasher.size,
+        integrity: hasher.getIntegrity('sha512')!,
+        downloadedAt: new Date().toISOString()
+      }, this.getSources(pkg));
+      await this.nestedView?.add(packedPkg, fileName, tarballPath, packageJsonPath);
+    } catch (error) {
+      if (partialPath) {
+        await fs.remove(partialPath).catch(() => {});
+      }
+      throw new Error(maskSecrets(`打包失败: ${pkg.name} - ${error instanceof Error ? error.message : String(error)}`));
+    } finally {
+      await fs.remove(workDir).catch(() => {});
+    }
+  }
+
+  /**
+   * 依次执行同一个packument文件的写入，避免并发合并时丢失其他版本
+   */
+  private writePackument(packageJsonPath: string, write: () => Promise<void>): Promise<void> {
+    const current = (this.packumentWrites.get(packageJsonPath) || Promise.resolve())
+      .catch(() => {})
+      .then(write);
+    this.packumentWrites.set(packageJsonPath, current);
+    return current;
+  }
+
+  /**
+   * 根据tgz中的package.json生成packument，合并已保存的其他版本
+   */
+  private async createTarballPackument(sourcePath: string, hasher: IntegrityHasher, resolved: string, packageJsonPath: string, fileName: string): Promise<any> {
+    const manifest = await readTarballManifest(sourcePath);
+    const existing = await fs.readJSON(packageJsonPath).catch(() => undefined);
+    const shasum = hasher.getIntegrity('sha1');
+    return createLocalPackument(manifest, {
+      integrity: hasher.getIntegrity('sha512')!,
+      shasum: shasum ? Buffer.from(shasum.slice('sha1-'.length), 'base64').toString('hex') : undefined,
+      tarball: fileName
+    }, resolved, existing);
+  }
+
+  /**
+   * 下载过程中的临时文件，content布局下载完成前不知道哈希，先写入 _content/tmp/
+   */
+  private getPartialPath(pkg: PackageItem, fileName: string): string {
+    if (this.layout.type === 'content' && !pkg.variant) {
+      return path.join(this.outputDir, CONTENT_DIR, 'tmp', `${pkg.name.replace('/', '+')}@${pkg.version}.tgz.partial`);
+    }
+    return `${path.join(this.outputDir, getTarballPath(this.layout.type, pkg, fileName))}.partial`;
+  }
+
+  private getStoredTarballPath(pkg: PackageItem, fileName: string, hasher: IntegrityHasher): string {
+    const tarballPath = path.join(this.outputDir, getTarballPath(this.layout.type, pkg, fileName, hasher.getIntegrity('sha512')));
+    ensureDirectoryExists(path.dirname(tarballPath));
+    return tarballPath;
+  }
+
+  /**
+   * 下载tgz文件到临时文件，写入的同时计算哈希
+   */
+  private async fetchTarball(url: string, pkg: PackageItem, partialPath: string): Promise<IntegrityHasher> {
+    // 使用优化的下载配置
+    const downloadOptions = {
+      agent: this.downloadAgent,
+      timeout: this.timeout,
+      retries: 3, // 增加重试次数
+      // download默认按npm_config_strict_ssl设置，这里与连接代理保持一致
+      rejectUnauthorized: getNetworkSettings().strictSSL,
+      headers: {
+        'User-Agent': 'tgz-box-optimized/1.0.0',
+        'Connection': 'keep-alive',
+        ...this.registryResolver.getAuthHeaders(url)
+      }
+    };
+
+    const hasher = new IntegrityHasher(getIntegrityAlgorithms(pkg.integrity));
+    const downloadStream = download(url, downloadOptions);
+    // got跟随重定向时会保留请求头，重定向到其他host（如CDN）时去掉认证头
+    downloadStream.on('redirect', (_response: unknown, redirectOptions: { host?: string; headers?: Record<string, string> }) => {
+      if (redirectOptions.headers?.authorization && redirectOptions.host !== new URL(url).host) {
+        const { authorization, ...headers } = redirectOptions.headers;
+        redirectOptions.headers = headers;
+      }
+    });
+    // download返回的Promise会缓存整个响应，这里只使用流，避免未处理的拒绝
+    downloadStream.catch(() => {});
+    await pipeline(downloadStream, hasher, fs.createWriteStream(partialPath));
+    return hasher;
+  }
+
+  /**
+   * registry格式的tgz地址（<registry>/<name>/-/<file>）直接从同一个registry获取packument
+   * 其他地址按包的scope从对应的registry获取
+   */
+  private getPackumentUrl(pkg: PackageItem): string {
+    if (pkg.resolved.includes('/-/')) {
+      return pkg.resolved.split('/-/')[0];
+    }
+    return this.registryResolver.getPackumentUrl(pkg.name);
+  }
+
+  /**
+   * 已存在的tgz文件补充到清单中，兼容引入清单之前下载的文件
+   */
+  private async recordExistingTarball(pkg: PackageItem, tarballPath: string): Promise<void> {
+    if (!this.manifest) {
+      return;
+    }
+
+    const relativePath = getManifestPath(this.outputDir, tarballPath);
+    if (this.manifest.get(relativePath)) {
+      this.manifest.addSources(relativePath, this.getSources(pkg));
+      return;
+    }
+
+    const stat = await fs.stat(tarballPath);
+    this.manifest.record({
+      name: pkg.name,
+      version: pkg.version,
+      path: relativePath,
+      resolved: maskSecrets(pkg.resolved),
+      size: stat.size,
+      integrity: await hashFile(tarballPath),
+      downloadedAt: stat.mtime.toISOString()
+    }, this.getSources(pkg));
+  }
+
+  private getSources(pkg: PackageItem): string[] {
+    return this.packageSources?.get(getPackageKey(pkg)) || (this.source ? [this.source] : []);
+  }
+
+  /**
+   * 获取因离线端已有而跳过下载的包数量
+   */
+  getInventorySkippedCount(): number {
+    return this.inventorySkipped;
+  }
+
+  /**
+   * 本次下载的包实际使用的registry，键为 name@version
+   */
+  getServedRegistries(): Map<string, string> {
+    return this.servedRegistries;
+  }
+
   private updateProgress() {
     if (this.onProgress) {
       this.onProgress({ ...this.progress });
     }
   }
+}
+
+/**
+ * 获取tgz文件名，与registry中的文件名保持一致
+ */
+export function getTarballFileName(pkg: PackageItem): string {
+  // 非registry依赖的地址中没有规范的文件名，统一使用 <name>-<version>.tgz
+  if (pkg.source && pkg.source !== 'registry') {
+    return `${pkg.name.split('/').pop()}-${pkg.version}.tgz`;
+  }
+  try {
+    const fileName = decodeURIComponent(path.posix.basename(new URL(pkg.resolved).pathname));
+    if (fileName.endsWith('.tgz')) {
+      return fileName;
+    }
+  } catch {
+    // resolved不是合法URL，使用包名生成文件名
+  }
+  return `${pkg.name.split('/').pop()}-${pkg.version}.tgz`;
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import fs from 'fs-extra';
 import path from 'path';
 import { PackageItem } from '../types';
 import { TEMP_DIR } from './constants';
+import { maskSecrets } from './auth';
+import { getPackageKey } from './storageLayout';
 
 /**
  * 失败包管理器
@@ -9,6 +11,7 @@ import { TEMP_DIR } from './constants';
  */
 export class FailedPackageManager {
   private failedPackages: Map<string, PackageItem> = new Map();
+  private integrityFailures: Set<string> = new Set();
   private retryCount: number = 0;
   private maxRetries: number = 2;
   private cacheFilePath: string;
@@ -22,12 +25,15 @@ export class FailedPackageManager {
   /**
    * 添加失败的包到缓存
    */
-  addFailedPackage(pkg: PackageItem, error: string): void {
-    const key = `${pkg.name}@${pkg.version}`;
+  addFailedPackage(pkg: PackageItem, error: string, isIntegrityError = false): void {
+    const key = getPackageKey(pkg);
     this.failedPackages.set(key, {
       ...pkg,
-      error
+      error: maskSecrets(error)
     });
+    if (isIntegrityError) {
+      this.integrityFailures.add(key);
+    }
     this.saveToCache();
   }
 
@@ -35,7 +41,7 @@ export class FailedPackageManager {
    * 检查包是否在失败缓存中
    */
   isPackageFailed(pkg: PackageItem): boolean {
-    const key = `${pkg.name}@${pkg.version}`;
+    const key = getPackageKey(pkg);
     return this.failedPackages.has(key);
   }
 
@@ -51,6 +57,7 @@ export class FailedPackageManager {
    */
   clearFailedPackages(): void {
     this.failedPackages.clear();
+    this.integrityFailures.clear();
     this.saveToCache();
   }
 
@@ -58,7 +65,7 @@ export class FailedPackageManager {
    * 从失败缓存中移除成功下载的包
    */
   removeSuccessfulPackage(pkg: PackageItem): void {
-    const key = `${pkg.name}@${pkg.version}`;
+    const key = getPackageKey(pkg);
     this.failedPackages.delete(key);
     this.saveToCache();
   }
@@ -77,6 +84,13 @@ export class FailedPackageManager {
     this.retryCount++;
   }
 
+  /**
+   * 设置最大重试轮数
+   */
+  setMaxRetries(maxRetries: number): void {
+    this.maxRetries = maxRetries;
+  }
+
   /**
    * 检查是否还能重试
    */
@@ -119,8 +133,9 @@ export class FailedPackageManager {
       failedPackageData.failedPackages.push({
         name: pkg.name,
         version: pkg.version,
-        resolved: pkg.resolved,
-        error: pkg.error || 'Unknown error',
+        // 文件可能被分享或提交，屏蔽地址和错误信息中的凭据
+        resolved: maskSecrets(pkg.resolved),
+        error: maskSecrets(pkg.error || 'Unknown error'),
         retryCount: this.retryCount
       });
     }
@@ -138,7 +153,8 @@ export class FailedPackageManager {
       await fs.ensureDir(path.dirname(this.cacheFilePath));
       const cacheData = {
         retryCount: this.retryCount,
-        failedPackages: Array.from(this.failedPackages.entries())
+        failedPackages: Array.from(this.failedPackages.entries()),
+        integrityFailures: Array.from(this.integrityFailures)
       };
       await fs.writeJSON(this.cacheFilePath, cacheData, { spaces: 2 });
     } catch (error) {
@@ -155,10 +171,12 @@ export class FailedPackageManager {
         const cacheData = await fs.readJSON(this.cacheFilePath);
         this.retryCount = cacheData.retryCount || 0;
         this.failedPackages = new Map(cacheData.failedPackages || []);
+        this.integrityFailures = new Set(cacheData.integrityFailures || []);
       }
     } catch (error) {
       // 忽略缓存加载错误，使用默认值
       this.failedPackages = new Map();
+      this.integrityFailures = new Set();
       this.retryCount = 0;
     }
   }
@@ -181,12 +199,19 @@ export class FailedPackageManager {
    */
   getStatistics(): {
     totalFailed: number;
+    integrityFailures: number;
+    integrityFailed: number;
     retryCount: number;
     maxRetries: number;
     canRetry: boolean;
   } {
+    const integrityFailed = Array.from(this.failedPackages.keys())
+      .filter(key => this.integrityFailures.has(key)).length;
+
     return {
       totalFailed: this.failedPackages.size,
+      integrityFailures: this.integrityFailures.size,
+      integrityFailed,
       retryCount: this.retryCount,
       maxRetries: this.maxRetries,
       canRetry: this.canRetry()
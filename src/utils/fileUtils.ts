@@ -1,15 +1,43 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { LockData } from '../types';
-import { PACKAGE_JSON_PATH, PACKAGE_LOCK_PATH } from './constants';
+import { BUN_LOCK_FILE, PACKAGE_JSON_FILE, PACKAGE_LOCK_FILE, PNPM_LOCK_FILE, YARN_LOCK_FILE } from './constants';
 
-export function checkFilesExistence(): {
+export interface ProjectFiles {
+  packageJson: string;
+  packageLock: string;
+  yarnLock: string;
+  pnpmLock: string;
+  bunLock: string;
+}
+
+/**
+ * 获取项目目录中各配置文件的路径
+ */
+export function getProjectFiles(projectDir: string): ProjectFiles {
+  return {
+    packageJson: path.join(projectDir, PACKAGE_JSON_FILE),
+    packageLock: path.join(projectDir, PACKAGE_LOCK_FILE),
+    yarnLock: path.join(projectDir, YARN_LOCK_FILE),
+    pnpmLock: path.join(projectDir, PNPM_LOCK_FILE),
+    bunLock: path.join(projectDir, BUN_LOCK_FILE)
+  };
+}
+
+export function checkFilesExistence(projectDir: string = process.cwd()): {
   hasPackageJson: boolean;
   hasPackageLock: boolean;
+  hasYarnLock: boolean;
+  hasPnpmLock: boolean;
+  hasBunLock: boolean;
 } {
+  const files = getProjectFiles(projectDir);
   return {
-    hasPackageJson: fs.existsSync(PACKAGE_JSON_PATH),
-    hasPackageLock: fs.existsSync(PACKAGE_LOCK_PATH)
+    hasPackageJson: fs.existsSync(files.packageJson),
+    hasPackageLock: fs.existsSync(files.packageLock),
+    hasYarnLock: fs.existsSync(files.yarnLock),
+    hasPnpmLock: fs.existsSync(files.pnpmLock),
+    hasBunLock: fs.existsSync(files.bunLock)
   };
 }
 
@@ -22,6 +50,14 @@ export async function readLockFile(filePath: string): Promise<LockData> {
   }
 }
 
+export async function readTextFile(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`读取文件失败: ${filePath}`);
+  }
+}
+
 export async function readPackageJson(filePath: string): Promise<any> {
   try {
     const content = await fs.readJSON(filePath);
@@ -41,4 +77,15 @@ export function cleanupTempDirectory(tempDir: string): void {
   if (fs.existsSync(tempDir)) {
     fs.removeSync(tempDir);
   }
-}
\ No newline at end of file
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(unitIndex === 0 ? 0 : 1)}${units[unitIndex]}`;
+}
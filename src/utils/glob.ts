@@ -0,0 +1,43 @@
+export interface PackageFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * 将包名通配符转换为正则表达式
+ * `*` 匹配除 / 以外的任意字符，`**` 匹配任意字符，`?` 匹配单个字符
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(name));
+}
+
+/**
+ * 包名是否通过include/exclude过滤
+ * 设置了include时只保留匹配的包，exclude优先于include
+ */
+export function matchesFilters(name: string, filters: PackageFilters = {}): boolean {
+  if (filters.include && filters.include.length > 0 && !matchesGlob(name, filters.include)) {
+    return false;
+  }
+  return !(filters.exclude && filters.exclude.length > 0 && matchesGlob(name, filters.exclude));
+}
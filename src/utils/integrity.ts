@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+
+// 按强度从高到低排列，校验时优先使用最强的算法
+const SUPPORTED_ALGORITHMS = ['sha512', 'sha384', 'sha256', 'sha1'];
+
+/**
+ * 完整性校验失败错误
+ * 与普通下载错误区分，便于统计完整性失败的数量
+ */
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * 解析SRI格式的integrity字符串（如 "sha512-xxx sha1-yyy"）
+ */
+export function parseIntegrity(integrity?: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  if (!integrity) {
+    return hashes;
+  }
+
+  for (const item of integrity.trim().split(/\s+/)) {
+    const match = item.match(/^(sha\d+)-([A-Za-z0-9+/=]+)/);
+    if (match && SUPPORTED_ALGORITHMS.includes(match[1]) && !hashes.has(match[1])) {
+      hashes.set(match[1], match[2]);
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * 将packument中的shasum（sha1十六进制）转换为SRI格式
+ */
+export function shasumToIntegrity(shasum?: string): string | undefined {
+  if (!shasum || !/^[a-f0-9]{40}$/i.test(shasum)) {
+    return undefined;
+  }
+  return `sha1-${Buffer.from(shasum, 'hex').toString('base64')}`;
+}
+
+/**
+ * 边写入边计算哈希的透传流
+ * 默认同时计算sha512和sha1，可追加校验所需的其他算法
+ */
+export class IntegrityHasher extends Transform {
+  private hashes = new Map<string, crypto.Hash>();
+  private digests = new Map<string, string>();
+  private byteCount = 0;
+
+  constructor(algorithms: string[] = []) {
+    super();
+    const allAlgorithms = new Set(['sha512', 'sha1', ...algorithms]);
+    allAlgorithms.forEach(algorithm => {
+      if (SUPPORTED_ALGORITHMS.includes(algorithm)) {
+        this.hashes.set(algorithm, crypto.createHash(algorithm));
+      }
+    });
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.byteCount += chunk.length;
+    this.hashes.forEach(hash => hash.update(chunk));
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.hashes.forEach((hash, algorithm) => {
+      this.digests.set(algorithm, hash.digest('base64'));
+    });
+    callback();
+  }
+
+  /**
+   * 获取指定算法的SRI字符串，需在流结束后调用
+   */
+  getIntegrity(algorithm = 'sha512'): string | undefined {
+    const digest = this.digests.get(algorithm);
+    return digest ? `${algorithm}-${digest}` : undefined;
+  }
+
+  get size(): number {
+    return this.byteCount;
+  }
+
+  /**
+   * 使用最强的共同算法校验期望的integrity
+   * 没有期望值或没有可比较的算法时视为通过
+   */
+  verify(expected?: string): boolean {
+    const expectedHashes = parseIntegrity(expected);
+    for (const algorithm of SUPPORTED_ALGORITHMS) {
+      const expectedDigest = expectedHashes.get(algorithm);
+      const actualDigest = this.digests.get(algorithm);
+      if (expectedDigest && actualDigest) {
+        return expectedDigest === actualDigest;
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * 计算文件的sha512 SRI字符串
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha512');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return `sha512-${hash.digest('base64')}`;
+}
+
+/**
+ * 获取integrity字符串中包含的算法列表
+ */
+export function getIntegrityAlgorithms(...integrities: Array<string | undefined>): string[] {
+  const algorithms = new Set<string>();
+  integrities.forEach(integrity => {
+    parseIntegrity(integrity).forEach((_digest, algorithm) => algorithms.add(algorithm));
+  });
+  return Array.from(algorithms);
+}
@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import { PackageItem } from '../types';
+import { hashFile, parseIntegrity } from './integrity';
+import { scanStoredPackages } from './packageStore';
+
+export interface InventoryEntry {
+  name: string;
+  version: string;
+  integrity: string;
+}
+
+export interface InventoryFile {
+  formatVersion: number;
+  createdAt: string;
+  totalPackages: number;
+  packages: InventoryEntry[];
+}
+
+/**
+ * 离线端已有包的清单
+ * 在离线端导出，在联网端用于只下载和打包离线端缺失的版本
+ */
+export class Inventory {
+  private entries = new Map<string, InventoryEntry>();
+  readonly createdAt: string;
+
+  constructor(data: InventoryFile) {
+    this.createdAt = data.createdAt;
+    (data.packages || []).forEach(entry => {
+      this.entries.set(`${entry.name}@${entry.version}`, entry);
+    });
+  }
+
+  static async load(filePath: string): Promise<Inventory> {
+    try {
+      const data = await fs.readJSON(filePath);
+      return new Inventory(data);
+    } catch (error) {
+      throw new Error(`读取清单文件失败: ${filePath}`);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 离线端是否已有该版本
+   * 双方都有sha512时还要求哈希一致，否则离线端的文件视为需要替换
+   */
+  has(pkg: Pick<PackageItem, 'name' | 'version' | 'integrity'>): boolean {
+    const entry = this.entries.get(`${pkg.name}@${pkg.version}`);
+    if (!entry) {
+      return false;
+    }
+
+    const expected = parseIntegrity(pkg.integrity).get('sha512');
+    const actual = parseIntegrity(entry.integrity).get('sha512');
+    return !expected || !actual || expected === actual;
+  }
+}
+
+/**
+ * 扫描packages目录生成清单，记录每个版本tgz文件的sha512
+ */
+export async function createInventory(
+  directory: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<InventoryFile> {
+  const storedPackages = await scanStoredPackages(directory);
+  const tarballs = Array.from(storedPackages.values()).flatMap(pkg => Array.from(pkg.tarballs.values()));
+  const packages: InventoryEntry[] = [];
+
+  for (let i = 0; i < tarballs.length; i++) {
+    const tarball = tarballs[i];
+    packages.push({
+      name: tarball.name,
+      version: tarball.version,
+      integrity: await hashFile(tarball.tarballPath)
+    });
+    onProgress?.(i + 1, tarballs.length);
+  }
+
+  packages.sort((a, b) => `${a.name}@${a.version}`.localeCompare(`${b.name}@${b.version}`));
+
+  return {
+    formatVersion: 1,
+    createdAt: new Date().toISOString(),
+    totalPackages: packages.length,
+    packages
+  };
+}
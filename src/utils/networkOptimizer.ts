@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { Agent } from 'http';
-import { Agent as HttpsAgent } from 'https';
+import { maskSecrets } from './auth';
+import { createNetworkAgents } from './proxy';
+import { shouldTryNextMirror } from './registry';
 
 // 信号量类，用于控制并发
 class Semaphore {
@@ -35,6 +36,18 @@ class Semaphore {
   }
 }
 
+export interface NetworkOptimizerOptions {
+  timeout?: number;
+  maxRetries?: number;
+  errorThreshold?: number;
+  circuitBreakerTimeout?: number;
+  minRequests?: number;
+  // 按请求地址返回认证头，只对匹配的registry携带凭据
+  authHeaders?: (url: string) => Record<string, string>;
+  // 按请求地址返回备用镜像中的相同地址，按尝试顺序排列
+  mirrorUrls?: (url: string) => string[];
+}
+
 /**
  * 网络请求优化器
  * 提供连接池、keepAlive、智能重试、网络自适应等优化功能
@@ -53,32 +66,19 @@ export class NetworkOptimizer {
   // 断路器相关
   private circuitBreakerOpen = false;
   private circuitBreakerOpenTime = 0;
-  private readonly circuitBreakerTimeout = 60000; // 1分钟后尝试恢复
-  private readonly errorThreshold = 0.5; // 错误率超过50%时开启断路器
+  private circuitBreakerTimeout = 60000; // 1分钟后尝试恢复
+  private errorThreshold = 0.5; // 错误率超过50%时开启断路器
+  private minRequests = 20; // 请求数达到后才评估是否开启断路器
+  private maxRetries = 5;
+  private authHeaders?: (url: string) => Record<string, string>;
+  private mirrorUrls?: (url: string) => string[];
   
   constructor() {
-    // 创建HTTP/HTTPS代理，启用连接池和keepAlive
-    const httpAgent = new Agent({
-      keepAlive: true,
-      keepAliveMsecs: 30000,
-      maxSockets: 30, // 减少最大连接数，避免过载
-      maxFreeSockets: 5,
-      timeout: 30000 // 增加socket超时时间
-    });
-    
-    const httpsAgent = new HttpsAgent({
-      keepAlive: true,
-      keepAliveMsecs: 30000,
-      maxSockets: 30, // 减少最大连接数，避免过载
-      maxFreeSockets: 5,
-      timeout: 30000 // 增加socket超时时间
-    });
-    
     // 创建优化的axios实例
     this.axiosInstance = axios.create({
       timeout: 30000, // 增加超时时间到30秒
-      httpAgent,
-      httpsAgent,
+      // 代理由连接代理处理，不使用axios自带的代理逻辑
+      proxy: false,
       headers: {
         'User-Agent': 'tgz-box-optimized/1.0.0',
         'Accept': 'application/json',
@@ -96,6 +96,12 @@ export class NetworkOptimizer {
       (config) => {
         // 添加请求时间戳
         config.metadata = { startTime: Date.now() };
+        // 添加registry凭据，跨host重定向时follow-redirects会去掉认证头
+        if (config.url && this.authHeaders && !config.headers.has('authorization')) {
+          Object.entries(this.authHeaders(config.url)).forEach(([name, value]) => {
+            config.headers.set(name, value);
+          });
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -115,10 +121,55 @@ export class NetworkOptimizer {
         const endTime = Date.now();
         const duration = endTime - (error.config?.metadata?.startTime || endTime);
         this.updateNetworkMetrics(duration, true);
-        console.debug(`请求失败: ${error.config?.url} 耗时 ${duration}ms, 错误: ${error.message}`);
+        console.debug(maskSecrets(`请求失败: ${error.config?.url} 耗时 ${duration}ms, 错误: ${error.message}`));
         return Promise.reject(error);
       }
     );
+
+    this.refreshAgents();
+  }
+
+  /**
+   * 按当前的代理和证书设置重新创建连接池，启用keepAlive
+   */
+  private refreshAgents(): void {
+    const agents = createNetworkAgents({
+      keepAlive: true,
+      keepAliveMsecs: 30000,
+      maxSockets: 30, // 减少最大连接数，避免过载
+      maxFreeSockets: 5,
+      timeout: 30000 // 增加socket超时时间
+    });
+    this.axiosInstance.defaults.httpAgent = agents.http;
+    this.axiosInstance.defaults.httpsAgent = agents.https;
+  }
+  
+  /**
+   * 应用配置文件中的超时、重试和断路器设置，并按当前的代理和证书设置重建连接池
+   */
+  configure(options: NetworkOptimizerOptions): void {
+    this.refreshAgents();
+    if (options.timeout !== undefined) {
+      this.axiosInstance.defaults.timeout = options.timeout;
+    }
+    if (options.maxRetries !== undefined) {
+      this.maxRetries = options.maxRetries;
+    }
+    if (options.errorThreshold !== undefined) {
+      this.errorThreshold = options.errorThreshold;
+    }
+    if (options.circuitBreakerTimeout !== undefined) {
+      this.circuitBreakerTimeout = options.circuitBreakerTimeout;
+    }
+    if (options.minRequests !== undefined) {
+      this.minRequests = options.minRequests;
+    }
+    if (options.authHeaders !== undefined) {
+      this.authHeaders = options.authHeaders;
+    }
+    if (options.mirrorUrls !== undefined) {
+      this.mirrorUrls = options.mirrorUrls;
+    }
   }
   
   /**
@@ -154,8 +205,27 @@ export class NetworkOptimizer {
   
   /**
    * 带智能重试的GET请求
+   * 重试后仍返回404/5xx或网络错误时，依次使用备用镜像中的相同地址
    */
-  async getWithRetry(url: string, config?: AxiosRequestConfig, maxRetries = 5): Promise<any> {
+  async getWithRetry(url: string, config?: AxiosRequestConfig, maxRetries = this.maxRetries): Promise<any> {
+    const urls = [url, ...(this.mirrorUrls?.(url) || [])];
+    let lastError: any;
+
+    for (const candidate of urls) {
+      try {
+        return await this.requestWithRetry(candidate, config, maxRetries);
+      } catch (error) {
+        lastError = error;
+        if (!shouldTryNextMirror(error)) {
+          break;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async requestWithRetry(url: string, config: AxiosRequestConfig | undefined, maxRetries: number): Promise<any> {
     let lastError: any;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -212,7 +282,7 @@ export class NetworkOptimizer {
     const errorRate = this.errorCount / this.totalRequests;
     
     // 检查是否需要开启断路器
-    if (errorRate > this.errorThreshold && this.totalRequests > 20) {
+    if (errorRate > this.errorThreshold && this.totalRequests > this.minRequests) {
       this.circuitBreakerOpen = true;
       this.circuitBreakerOpenTime = Date.now();
       console.log(`⚠️  网络状况不佳，开启断路器模式 (错误率: ${(errorRate * 100).toFixed(1)}%)`);
@@ -286,7 +356,7 @@ export class NetworkOptimizer {
        } catch (error: any) {
          const requestTime = Date.now() - startTime;
          this.updateNetworkMetrics(requestTime, true);
-         return { url, error: error.message || String(error) };
+         return { url, error: maskSecrets(error.message || String(error)) };
        } finally {
          release();
        }
@@ -303,6 +373,31 @@ export class NetworkOptimizer {
     });
   }
   
+  /**
+   * 并发发送HEAD请求获取文件大小，请求失败或没有Content-Length的地址不包含在结果中
+   */
+  async getContentLengths(urls: string[], concurrency = 10): Promise<Map<string, number>> {
+    const semaphore = new Semaphore(this.getAdaptiveConcurrency(concurrency));
+    const sizes = new Map<string, number>();
+
+    await Promise.all(Array.from(new Set(urls)).map(async (url) => {
+      const release = await semaphore.acquire();
+      try {
+        const response = await this.axiosInstance.head(url);
+        const length = parseInt(String(response.headers['content-length']), 10);
+        if (Number.isFinite(length)) {
+          sizes.set(url, length);
+        }
+      } catch {
+        // 大小只用于统计，忽略失败的请求
+      } finally {
+        release();
+      }
+    }));
+
+    return sizes;
+  }
+
   /**
    * 清理过期缓存
    */
@@ -0,0 +1,130 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export interface NpmrcConfig {
+  // 合并后的配置，数组形式的配置项（如 ca[]）以换行符连接
+  values: Record<string, string>;
+  // 读取到的配置文件，按优先级从低到高排列
+  files: string[];
+}
+
+/**
+ * 按npm的优先级读取.npmrc：全局 < 用户 < 项目 < npm_config_* 环境变量
+ * 不依赖npm命令行，未安装npm时也可以使用
+ */
+export async function loadNpmrc(projectDir: string, env: NodeJS.ProcessEnv = process.env): Promise<NpmrcConfig> {
+  const envValues = readEnvConfig(env);
+  const candidates = [
+    envValues.globalconfig || getGlobalNpmrcPath(env),
+    envValues.userconfig || path.join(os.homedir(), '.npmrc'),
+    path.join(projectDir, '.npmrc')
+  ];
+
+  const values: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const file of Array.from(new Set(candidates.map(candidate => path.resolve(candidate))))) {
+    if (!await fs.pathExists(file)) {
+      continue;
+    }
+    try {
+      Object.assign(values, parseNpmrc(await fs.readFile(file, 'utf8'), env));
+      files.push(file);
+    } catch (error) {
+      throw new Error(`读取.npmrc失败: ${file} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  Object.assign(values, envValues);
+  return { values, files };
+}
+
+/**
+ * 解析ini格式的.npmrc内容，支持 ${ENV} 环境变量替换和 key[] 数组写法
+ */
+export function parseNpmrc(content: string, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    let key = line.slice(0, separatorIndex).trim();
+    const value = substituteEnv(unquoteValue(line.slice(separatorIndex + 1).trim()), env);
+
+    if (key.endsWith('[]')) {
+      key = key.slice(0, -2);
+      values[key] = values[key] ? `${values[key]}\n${value}` : value;
+    } else {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 将配置值转换为布尔值，未配置时返回默认值
+ */
+export function getNpmrcBoolean(values: Record<string, string>, key: string, defaultValue: boolean): boolean {
+  const value = values[key];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  return value !== 'false' && value !== '0';
+}
+
+/**
+ * npm_config_* 环境变量，如 npm_config_registry、npm_config_@corp:registry
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  Object.entries(env).forEach(([name, value]) => {
+    const match = name.match(/^npm_config_(.+)$/i);
+    if (!match || value === undefined) {
+      return;
+    }
+
+    const rawKey = match[1];
+    // 以 _ 或 // 开头的键（如 _authToken、//host/:_authToken）保持原样，其他键按npm的规则转换
+    const key = rawKey.startsWith('_') || rawKey.startsWith('//')
+      ? rawKey
+      : rawKey.toLowerCase().replace(/_/g, '-');
+    values[key] = value;
+  });
+
+  return values;
+}
+
+function getGlobalNpmrcPath(env: NodeJS.ProcessEnv): string {
+  const prefix = env.npm_config_prefix || env.PREFIX || (process.platform === 'win32'
+    ? path.dirname(process.execPath)
+    : path.resolve(path.dirname(process.execPath), '..'));
+  return path.join(prefix, 'etc', 'npmrc');
+}
+
+function unquoteValue(value: string): string {
+  if (value.length >= 2 && ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+function substituteEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/(\\*)\$\{([^}?]+)(\?)?\}/g, (match, escapes: string, name: string) => {
+    // 奇数个反斜杠表示转义，保留原样
+    if (escapes.length % 2 === 1) {
+      return match.slice(1);
+    }
+    return `${escapes}${env[name] ?? ''}`;
+  });
+}
@@ -0,0 +1,237 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hashFile } from './integrity';
+import { LayoutConfig, NESTED_VIEW_DIR, VARIANTS_DIR } from './storageLayout';
+
+export const PACKAGE_MANIFEST_NAME = 'manifest.json';
+
+export interface ManifestEntry {
+  name: string;
+  version: string;
+  // tgz文件相对packages目录的路径，使用 / 分隔
+  path: string;
+  resolved: string;
+  size: number;
+  integrity: string;
+  downloadedAt: string;
+  // 需要该版本的项目，同一个版本可能被多个项目下载
+  sources: string[];
+}
+
+export interface PackageManifestFile {
+  formatVersion: number;
+  updatedAt: string;
+  totalPackages: number;
+  // 目录使用的存储布局，没有记录时为nested
+  layout?: LayoutConfig;
+  packages: ManifestEntry[];
+}
+
+export interface ManifestVerifyResult {
+  total: number;
+  missing: ManifestEntry[];
+  modified: ManifestEntry[];
+  unexpected: string[];
+}
+
+/**
+ * packages目录中所有tgz文件的持久化清单
+ * 下载器在内存中更新，每轮下载结束后统一写回磁盘
+ */
+export class PackageManifest {
+  private entries = new Map<string, ManifestEntry>();
+  // name@version 到tgz文件路径，用于content布局按版本查找
+  private versions = new Map<string, string>();
+  private layout?: LayoutConfig;
+  private dirty = false;
+
+  constructor(private directory: string, data?: PackageManifestFile) {
+    (data?.packages || []).forEach(entry => this.set(entry));
+    this.layout = data?.layout;
+  }
+
+  static async load(directory: string): Promise<PackageManifest> {
+    const manifestPath = path.join(directory, PACKAGE_MANIFEST_NAME);
+    if (!await fs.pathExists(manifestPath)) {
+      return new PackageManifest(directory);
+    }
+
+    try {
+      return new PackageManifest(directory, await fs.readJSON(manifestPath));
+    } catch (error) {
+      throw new Error(`读取清单文件失败: ${manifestPath}`);
+    }
+  }
+
+  static async exists(directory: string): Promise<boolean> {
+    return fs.pathExists(path.join(directory, PACKAGE_MANIFEST_NAME));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(relativePath: string): ManifestEntry | undefined {
+    return this.entries.get(relativePath);
+  }
+
+  getEntries(): ManifestEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  findVersion(name: string, version: string): ManifestEntry | undefined {
+    const relativePath = this.versions.get(`${name}@${version}`);
+    return relativePath ? this.entries.get(relativePath) : undefined;
+  }
+
+  getLayout(): LayoutConfig | undefined {
+    return this.layout;
+  }
+
+  setLayout(layout: LayoutConfig): void {
+    if (this.layout?.type !== layout.type || this.layout?.nested !== layout.nested) {
+      this.layout = layout;
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * 记录一个tgz文件，已有记录时合并来源项目
+   */
+  record(entry: Omit<ManifestEntry, 'sources'>, sources: string[] = []): void {
+    const existing = this.entries.get(entry.path);
+    const merged = new Set(existing && existing.integrity === entry.integrity ? existing.sources : []);
+    sources.forEach(source => merged.add(source));
+    this.set({ ...entry, sources: Array.from(merged).sort() });
+    this.dirty = true;
+  }
+
+  /**
+   * 为已有记录追加来源项目
+   */
+  addSources(relativePath: string, sources: string[]): void {
+    const entry = this.entries.get(relativePath);
+    const added = sources.filter(source => entry && !entry.sources.includes(source));
+    if (entry && added.length > 0) {
+      entry.sources = [...entry.sources, ...added].sort();
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * 合并另一份清单（如unbundle时bundle中携带的清单）
+   */
+  merge(data: PackageManifestFile): void {
+    (data.packages || []).forEach(entry => {
+      const existing = this.entries.get(entry.path);
+      const sources = existing && existing.integrity === entry.integrity
+        ? Array.from(new Set([...existing.sources, ...entry.sources])).sort()
+        : entry.sources;
+      this.set({ ...entry, sources });
+    });
+    this.layout = this.layout || data.layout;
+    this.dirty = true;
+  }
+
+  toJSON(): PackageManifestFile {
+    const packages = this.getEntries().sort((a, b) => a.path.localeCompare(b.path));
+    return {
+      formatVersion: 1,
+      updatedAt: new Date().toISOString(),
+      totalPackages: packages.length,
+      layout: this.layout,
+      packages
+    };
+  }
+
+  /**
+   * 写回磁盘，先写临时文件再重命名，避免中断时留下不完整的清单
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const manifestPath = path.join(this.directory, PACKAGE_MANIFEST_NAME);
+    const tempPath = `${manifestPath}.partial`;
+    // 先生成内容并清除标记，保存期间记录的包在下一次保存时写入
+    const data = this.toJSON();
+    this.dirty = false;
+    try {
+      await fs.ensureDir(this.directory);
+      await fs.writeJSON(tempPath, data, { spaces: 2 });
+      await fs.move(tempPath, manifestPath, { overwrite: true });
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
+  }
+
+  private set(entry: ManifestEntry): void {
+    this.entries.set(entry.path, entry);
+    if (!entry.path.startsWith(`${VARIANTS_DIR}/`)) {
+      this.versions.set(`${entry.name}@${entry.version}`, entry.path);
+    }
+  }
+}
+
+/**
+ * 使用清单校验packages目录，报告缺失、被修改以及清单之外的tgz文件
+ */
+export async function verifyPackageManifest(
+  directory: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ManifestVerifyResult> {
+  const manifest = await PackageManifest.load(directory);
+  const entries = manifest.getEntries();
+  const result: ManifestVerifyResult = { total: entries.length, missing: [], modified: [], unexpected: [] };
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const filePath = path.join(directory, entry.path);
+
+    if (!await fs.pathExists(filePath)) {
+      result.missing.push(entry);
+    } else if ((await fs.stat(filePath)).size !== entry.size || await hashFile(filePath) !== entry.integrity) {
+      result.modified.push(entry);
+    }
+    onProgress?.(i + 1, entries.length);
+  }
+
+  for (const relativePath of await listTarballs(directory)) {
+    if (!manifest.get(relativePath)) {
+      result.unexpected.push(relativePath);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 获取tgz文件相对packages目录的路径
+ */
+export function getManifestPath(directory: string, filePath: string): string {
+  return path.relative(directory, filePath).split(path.sep).join('/');
+}
+
+async function listTarballs(directory: string, base = ''): Promise<string[]> {
+  const tarballs: string[] = [];
+  const items = await fs.readdir(path.join(directory, base));
+
+  for (const item of items) {
+    const relativePath = base ? `${base}/${item}` : item;
+    const stat = await fs.lstat(path.join(directory, relativePath));
+
+    // 嵌套视图中的硬链接指向已记录的文件
+    if (stat.isDirectory() && relativePath === NESTED_VIEW_DIR) {
+      continue;
+    }
+    if (stat.isDirectory()) {
+      tarballs.push(...await listTarballs(directory, relativePath));
+    } else if (stat.isFile() && path.extname(item) === '.tgz') {
+      tarballs.push(relativePath);
+    }
+  }
+
+  return tarballs;
+}
@@ -1,5 +1,97 @@
-import { LockData, PackageItem } from '../types';
+import { LockData, LockFileType, PackageItem, PackageSource } from '../types';
 import ora from 'ora';
+import YAML from 'yaml';
+import semver from 'semver';
+import { shasumToIntegrity } from './integrity';
+import { RegistryResolver, buildTarballUrl } from './registry';
+import { UrlRewriter } from './rewrite';
+import { classifySource, isGitSpecifier } from './packageSource';
+import { matchesGlob } from './glob';
+import { getWorkspacePatterns } from './workspaces';
+import { PLATFORM_FIELDS, PlatformConstraints, getPlatformConstraints, hasPlatformConstraints } from './platform';
+
+/**
+ * 根据文件内容识别lock文件类型，而不是依赖文件名
+ */
+export function detectLockFileType(content: string): LockFileType | null {
+  const trimmed = content.trimStart();
+  
+  if (trimmed.startsWith('{')) {
+    try {
+      const data = parseJsonc(content);
+      const packageValues = Object.values(data.packages || {});
+      if (data.workspaces && !Array.isArray(data.workspaces) && packageValues.every(Array.isArray)) {
+        return 'bun';
+      }
+      return data.packages || data.dependencies ? 'npm' : null;
+    } catch {
+      return null;
+    }
+  }
+  
+  if (/^# yarn lockfile v1/m.test(content)) {
+    return 'yarn-classic';
+  }
+  if (/^__metadata:/m.test(content)) {
+    return 'yarn-berry';
+  }
+  if (/^lockfileVersion:/m.test(content)) {
+    return 'pnpm';
+  }
+  return null;
+}
+
+/**
+ * 识别lock文件类型并解析为统一的PackageItem列表
+ * @param registryResolver lock文件中没有下载地址时，按包的scope选择registry拼接地址
+ * @param rewriter 下载之前改写resolved地址，如将内网registry改为可访问的镜像
+ * @param projectDescriptors 项目自身依赖的 name@range，Yarn v1中这些条目不会被视为可选依赖
+ */
+export function parseLockFileContent(
+  content: string,
+  registryResolver: RegistryResolver,
+  showProgress = true,
+  rewriter?: UrlRewriter,
+  projectDescriptors: string[] = []
+): PackageItem[] {
+  const packages = parseByType(content, registryResolver, showProgress, projectDescriptors);
+  return rewriter ? applyRewriter(packages, rewriter).packages : packages;
+}
+
+/**
+ * 改写包的resolved地址，返回改写后的列表和被改写的数量
+ */
+export function applyRewriter(packages: PackageItem[], rewriter: UrlRewriter): { packages: PackageItem[]; rewritten: number } {
+  let rewritten = 0;
+  const result = packages.map(pkg => {
+    const resolved = rewriter.rewrite(pkg.resolved);
+    if (resolved === pkg.resolved) {
+      return pkg;
+    }
+    rewritten++;
+    return { ...pkg, resolved };
+  });
+  return { packages: result, rewritten };
+}
+
+function parseByType(content: string, registryResolver: RegistryResolver, showProgress: boolean, projectDescriptors: string[]): PackageItem[] {
+  const type = detectLockFileType(content);
+  
+  switch (type) {
+    case 'npm':
+      return parseLockFile(JSON.parse(content), showProgress);
+    case 'yarn-classic':
+      return parseYarnLock(content, showProgress, projectDescriptors);
+    case 'yarn-berry':
+      return parseYarnBerryLock(content, registryResolver, showProgress);
+    case 'pnpm':
+      return parsePnpmLock(content, registryResolver, showProgress);
+    case 'bun':
+      return parseBunLock(content, registryResolver, showProgress);
+    default:
+      throw new Error('无法识别的lock文件格式');
+  }
+}
 
 export function parseLockFile(lockData: LockData, showProgress = true): PackageItem[] {
   const packages: PackageItem[] = [];
@@ -13,7 +105,10 @@ export function parseLockFile(lockData: LockData, showProgress = true): PackageI
     if (lockData.packages) {
       // npm v7+ format (包括v10.2.3)
       const entries = Object.entries(lockData.packages);
+      const workspaces = getWorkspacePatterns(lockData.packages['']?.workspaces);
       const totalEntries = entries.length;
+      // 多个workspace下相同路径和版本的依赖只保留一个
+      const seen = new Set<string>();
       
       for (let i = 0; i < entries.length; i++) {
         const [key, pkg] = entries[i];
@@ -24,15 +119,43 @@ export function parseLockFile(lockData: LockData, showProgress = true): PackageI
           spinner.text = `解析依赖 (${progress}%)`;
         }
         
-        if (key.startsWith('node_modules/') && pkg.resolved) {
-          const packagePath = key.replace('node_modules/', '');
+        // workspace中未提升的依赖位于 packages/foo/node_modules/bar，目录按去掉workspace前缀后的路径保存
+        const nodeModulesIndex = key.indexOf('node_modules/');
+        if (nodeModulesIndex === -1 || !pkg.resolved) {
+          continue;
+        }
+        
+        const packagePath = key.slice(nodeModulesIndex).replace('node_modules/', '');
+        const target = pkg.link ? lockData.packages[pkg.resolved] : undefined;
+        const seenKey = `${packagePath}@${pkg.link ? pkg.resolved : pkg.version}`;
+        if (seen.has(seenKey)) {
+          continue;
+        }
+        seen.add(seenKey);
+        
+        if (pkg.link) {
+          // link条目的resolved是目标目录，目标是workspace时跳过，否则是file:目录依赖
           packages.push({
-            name: pkg.resolved.split('/').pop() || packagePath,
-            resolved: pkg.resolved,
+            name: target?.name || getPackageNameFromPath(key),
+            resolved: `file:${pkg.resolved}`,
             path: packagePath,
-            version: pkg.version
+            version: target?.version || '',
+            source: matchesGlob(pkg.resolved, workspaces) ? 'link' : 'file',
+            ...getDependencyFlags(pkg)
           });
+          continue;
         }
+        
+        packages.push({
+          name: pkg.name || getPackageNameFromPath(key),
+          resolved: pkg.resolved,
+          path: packagePath,
+          version: pkg.version,
+          integrity: pkg.integrity,
+          source: classifySource(pkg.resolved),
+          ...getDependencyFlags(pkg),
+          ...getPlatformConstraints(pkg)
+        });
       }
     } else if (lockData.dependencies) {
       // npm v6 format
@@ -52,10 +175,13 @@ export function parseLockFile(lockData: LockData, showProgress = true): PackageI
           if (info && typeof info === 'object' && (info as any).resolved) {
             const pkg = info as any;
             packages.push({
-              name: pkg.resolved.split('/').pop() || name,
+              name,
               resolved: pkg.resolved,
               path: basePath ? `${basePath}/${name}` : name,
-              version: pkg.version
+              version: pkg.version,
+              integrity: pkg.integrity,
+              source: classifySource(pkg.resolved),
+              ...getDependencyFlags(pkg)
             });
             
             if (pkg.dependencies) {
@@ -81,6 +207,543 @@ export function parseLockFile(lockData: LockData, showProgress = true): PackageI
   }
 }
 
+/**
+ * 解析Yarn v1（classic）格式的yarn.lock
+ * yarn.lock是扁平结构，同名包的不同版本保存在同一个目录下
+ */
+export function parseYarnLock(content: string, showProgress = true, projectDescriptors: string[] = []): PackageItem[] {
+  const packages: PackageItem[] = [];
+  let spinner: any;
+  
+  if (showProgress) {
+    spinner = ora('正在解析 yarn.lock...').start();
+  }
+
+  try {
+    const entries = parseYarnLockEntries(content);
+    const optionalEntries = findOptionalYarnEntries(entries, projectDescriptors);
+    
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      
+      if (showProgress && spinner && i % 10 === 0) {
+        const progress = Math.round((i / entries.length) * 100);
+        spinner.text = `解析依赖 (${progress}%)`;
+      }
+      
+      const { resolved, version, integrity } = entry.fields;
+      if (!version || entry.specifiers.length === 0) {
+        continue;
+      }
+      
+      const { name: aliasName, range } = parseYarnDescriptor(entry.specifiers[0]);
+      const realName = range.startsWith('npm:') ? parseYarnDescriptor(range.slice(4)).name : aliasName;
+      
+      // 本地目录和链接依赖没有resolved字段
+      if (!resolved) {
+        if (/^(file|link):/.test(range)) {
+          packages.push({ name: realName, resolved: range, path: aliasName, version, source: classifySource(range) });
+        }
+        continue;
+      }
+      
+      // git依赖的 # 之后是锁定的提交，需要保留
+      const source = classifySource(resolved);
+      if (source === 'git') {
+        packages.push({ name: realName, resolved, path: aliasName, version, source });
+        continue;
+      }
+      
+      // 去掉resolved中的 #sha1 片段，没有integrity时使用它作为校验值
+      const [tarballUrl, hash] = resolved.split('#');
+      packages.push({
+        name: realName,
+        resolved: tarballUrl,
+        path: aliasName,
+        version,
+        integrity: integrity || shasumToIntegrity(hash),
+        source,
+        ...(optionalEntries.has(entry) ? { optional: true } : {})
+      });
+    }
+    
+    if (showProgress && spinner) {
+      spinner.succeed(`依赖解析完成，共找到 ${packages.length} 个包`);
+    }
+    
+    return packages;
+  } catch (error) {
+    if (showProgress && spinner) {
+      spinner.fail('yarn.lock解析失败');
+    }
+    throw error;
+  }
+}
+
+/**
+ * 解析pnpm-lock.yaml（支持v6和v9格式）
+ * v9将包的元数据放在packages中，实际使用的依赖（含peer变体）放在snapshots中
+ * @param registryResolver 没有resolution.tarball时用于拼接下载地址
+ */
+export function parsePnpmLock(content: string, registryResolver: RegistryResolver, showProgress = true): PackageItem[] {
+  const packages: PackageItem[] = [];
+  let spinner: any;
+  
+  if (showProgress) {
+    spinner = ora('正在解析 pnpm-lock.yaml...').start();
+  }
+
+  try {
+    const lockData = YAML.parse(content) || {};
+    
+    // 去掉peer后缀后去重，同一个name@version只下载一次
+    const packageEntries = new Map<string, any>();
+    Object.entries(lockData.packages || {}).forEach(([key, entry]) => {
+      const baseKey = stripPnpmPeerSuffix(key);
+      if (!packageEntries.has(baseKey)) {
+        packageEntries.set(baseKey, entry);
+      }
+    });
+    
+    // v9的optional标记在snapshots中，同一个name@version的任一快照为非可选时视为非可选
+    const snapshotFlags = new Map<string, any>();
+    Object.entries<any>(lockData.snapshots || {}).forEach(([key, snapshot]) => {
+      const baseKey = stripPnpmPeerSuffix(key);
+      const existing = snapshotFlags.get(baseKey);
+      snapshotFlags.set(baseKey, { optional: (existing ? existing.optional : true) && snapshot?.optional === true });
+    });
+    
+    const keys = new Set<string>();
+    Object.keys(lockData.snapshots || lockData.packages || {}).forEach(key => keys.add(stripPnpmPeerSuffix(key)));
+    
+    const entries = Array.from(keys);
+    
+    // importers中 link: 形式的依赖不在packages中，只记录用于报告
+    Object.values<any>(lockData.importers || {}).forEach(importer => {
+      ['dependencies', 'devDependencies', 'optionalDependencies'].forEach(field => {
+        Object.entries<any>(importer?.[field] || {}).forEach(([name, value]) => {
+          const version = String(typeof value === 'object' ? value?.version : value);
+          if (version.startsWith('link:')) {
+            packages.push({ name, resolved: version, path: name, version: '', source: 'link' });
+          }
+        });
+      });
+    });
+    
+    for (let i = 0; i < entries.length; i++) {
+      const key = entries[i];
+      
+      if (showProgress && spinner && i % 10 === 0) {
+        const progress = Math.round((i / entries.length) * 100);
+        spinner.text = `解析依赖 (${progress}%)`;
+      }
+      
+      const entry = packageEntries.get(key);
+      const parsedKey = parsePnpmKey(key);
+      const name = entry?.name || parsedKey?.name;
+      const version = entry?.version || parsedKey?.version;
+      const resolution = entry?.resolution;
+      
+      if (!name || !version || !resolution) {
+        continue;
+      }
+      
+      let resolved: string | undefined;
+      let source: PackageSource = 'registry';
+      if (resolution.type === 'git' && resolution.repo) {
+        resolved = `${resolution.repo}#${resolution.commit || ''}`;
+        source = 'git';
+      } else if (resolution.type === 'directory' && resolution.directory) {
+        resolved = `file:${resolution.directory}`;
+        source = 'file';
+      } else if (resolution.tarball) {
+        resolved = resolution.tarball;
+        source = /^https?:\/\//.test(resolution.tarball) ? classifySource(resolution.tarball) : 'file';
+      } else if (resolution.integrity) {
+        resolved = registryResolver.getTarballUrl(name, version);
+      }
+      
+      if (!resolved) {
+        continue;
+      }
+      
+      packages.push({
+        name,
+        resolved,
+        path: name,
+        version,
+        integrity: resolution.integrity,
+        source,
+        ...getDependencyFlags(entry),
+        ...getDependencyFlags(snapshotFlags.get(key)),
+        ...getPlatformConstraints(entry)
+      });
+    }
+    
+    if (showProgress && spinner) {
+      spinner.succeed(`依赖解析完成，共找到 ${packages.length} 个包`);
+    }
+    
+    return packages;
+  } catch (error) {
+    if (showProgress && spinner) {
+      spinner.fail('pnpm-lock.yaml解析失败');
+    }
+    throw error;
+  }
+}
+
+/**
+ * 解析Yarn Berry（v2+）格式的yarn.lock
+ * checksum是yarn缓存zip的哈希而不是tgz的哈希，无法用于校验下载的文件
+ */
+export function parseYarnBerryLock(content: string, registryResolver: RegistryResolver, showProgress = true): PackageItem[] {
+  const packages: PackageItem[] = [];
+  let spinner: any;
+  
+  if (showProgress) {
+    spinner = ora('正在解析 yarn.lock (Berry)...').start();
+  }
+
+  try {
+    const lockData = YAML.parse(content) || {};
+    const entries = Object.entries<any>(lockData).filter(([key]) => key !== '__metadata');
+    
+    for (let i = 0; i < entries.length; i++) {
+      const [key, entry] = entries[i];
+      
+      if (showProgress && spinner && i % 10 === 0) {
+        const progress = Math.round((i / entries.length) * 100);
+        spinner.text = `解析依赖 (${progress}%)`;
+      }
+      
+      if (!entry || !entry.resolution || entry.version === undefined) {
+        continue;
+      }
+      
+      // npm协议、tgz地址、git和本地目录，workspace、portal、link作为链接跳过，patch等不处理
+      const { name, range } = parseYarnDescriptor(String(entry.resolution));
+      const version = String(entry.version);
+      let resolved: string | undefined;
+      let source: PackageSource = 'registry';
+      if (range.startsWith('npm:')) {
+        resolved = registryResolver.getTarballUrl(name, version);
+      } else if (isGitSpecifier(range)) {
+        resolved = range;
+        source = 'git';
+      } else if (/^https?:\/\//.test(range)) {
+        resolved = range;
+        source = classifySource(range);
+      } else if (range.startsWith('file:')) {
+        // 去掉 ::locator=... 等附加参数
+        resolved = range.split('::')[0].split('#')[0];
+        source = 'file';
+      } else if (/^(workspace|portal|link):/.test(range)) {
+        resolved = `link:${range.replace(/^\w+:/, '').split('::')[0]}`;
+        source = 'link';
+      }
+      
+      if (!resolved) {
+        continue;
+      }
+      
+      // yarn.lock不记录依赖类型，带平台条件的包按可选依赖处理
+      const platform = parseYarnConditions(entry.conditions);
+      packages.push({
+        name,
+        resolved,
+        path: parseYarnDescriptor(key.split(',')[0].trim()).name,
+        version,
+        source,
+        ...(hasPlatformConstraints(platform) ? { optional: true, ...platform } : {})
+      });
+    }
+    
+    if (showProgress && spinner) {
+      spinner.succeed(`依赖解析完成，共找到 ${packages.length} 个包`);
+    }
+    
+    return packages;
+  } catch (error) {
+    if (showProgress && spinner) {
+      spinner.fail('yarn.lock解析失败');
+    }
+    throw error;
+  }
+}
+
+/**
+ * 解析Bun的文本格式lock文件bun.lock
+ * packages中每个条目为 [name@version, registry或tgz地址, 依赖信息, integrity]
+ */
+export function parseBunLock(content: string, registryResolver: RegistryResolver, showProgress = true): PackageItem[] {
+  const packages: PackageItem[] = [];
+  let spinner: any;
+  
+  if (showProgress) {
+    spinner = ora('正在解析 bun.lock...').start();
+  }
+
+  try {
+    const lockData = parseJsonc(content);
+    const entries = Object.entries<any>(lockData.packages || {});
+    
+    for (let i = 0; i < entries.length; i++) {
+      const [key, entry] = entries[i];
+      
+      if (showProgress && spinner && i % 10 === 0) {
+        const progress = Math.round((i / entries.length) * 100);
+        spinner.text = `解析依赖 (${progress}%)`;
+      }
+      
+      if (!Array.isArray(entry) || typeof entry[0] !== 'string') {
+        continue;
+      }
+      
+      // git、file、workspace等非npm依赖的版本部分不是合法的semver，版本在打包时从package.json读取
+      const { name, range: version } = parseYarnDescriptor(entry[0]);
+      if (!semver.valid(version)) {
+        if (isGitSpecifier(version) || /^(file|link|workspace):/.test(version)) {
+          const source = isGitSpecifier(version) ? 'git' : version.startsWith('file:') ? 'file' : 'link';
+          packages.push({ name, resolved: source === 'link' ? `link:${version.replace(/^\w+:/, '')}` : version, path: key, version: '', source });
+        }
+        continue;
+      }
+      
+      const source = typeof entry[1] === 'string' ? entry[1] : '';
+      let resolved: string;
+      if (source.endsWith('.tgz')) {
+        resolved = source;
+      } else {
+        resolved = source ? buildTarballUrl(source, name, version) : registryResolver.getTarballUrl(name, version);
+      }
+      
+      // 依赖信息中带有os/cpu/libc，bun.lock同样不记录依赖类型，带平台限制的包按可选依赖处理
+      const platform = getPlatformConstraints(entry[2]);
+      packages.push({
+        name,
+        resolved,
+        path: key,
+        version,
+        integrity: typeof entry[3] === 'string' ? entry[3] : undefined,
+        source: classifySource(resolved),
+        ...(hasPlatformConstraints(platform) ? { optional: true, ...platform } : {})
+      });
+    }
+    
+    if (showProgress && spinner) {
+      spinner.succeed(`依赖解析完成，共找到 ${packages.length} 个包`);
+    }
+    
+    return packages;
+  } catch (error) {
+    if (showProgress && spinner) {
+      spinner.fail('bun.lock解析失败');
+    }
+    throw error;
+  }
+}
+
+// 去掉pnpm key中的peer依赖后缀，如 /a@1.0.0(b@2.0.0) -> a@1.0.0
+function stripPnpmPeerSuffix(key: string): string {
+  const parenIndex = key.indexOf('(');
+  return (parenIndex === -1 ? key : key.slice(0, parenIndex)).replace(/^\//, '');
+}
+
+// 拆分pnpm key中的包名和版本，如 @scope/a@1.0.0
+function parsePnpmKey(key: string): { name: string; version: string } | null {
+  const atIndex = key.lastIndexOf('@');
+  if (atIndex <= 0) {
+    return null;
+  }
+  return {
+    name: key.slice(0, atIndex),
+    version: key.slice(atIndex + 1)
+  };
+}
+
+interface YarnLockEntry {
+  specifiers: string[];
+  fields: Record<string, string>;
+  // 依赖的 name@range 描述符
+  dependencies: string[];
+  optionalDependencies: string[];
+}
+
+// 将yarn.lock拆分为条目，读取每个条目的顶层字段和依赖列表
+function parseYarnLockEntries(content: string): YarnLockEntry[] {
+  const entries: YarnLockEntry[] = [];
+  let current: YarnLockEntry | null = null;
+  let block: string | null = null;
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    if (!rawLine.trim() || rawLine.trimStart().startsWith('#')) {
+      continue;
+    }
+    
+    const indent = rawLine.length - rawLine.trimStart().length;
+    const line = rawLine.trim();
+    
+    if (indent === 0 && line.endsWith(':')) {
+      current = {
+        specifiers: line.slice(0, -1).split(',').map(spec => unquote(spec.trim())).filter(Boolean),
+        fields: {},
+        dependencies: [],
+        optionalDependencies: []
+      };
+      entries.push(current);
+    } else if (current && indent === 2) {
+      block = line.endsWith(':') ? line.slice(0, -1) : null;
+      const match = block === null && line.match(/^("[^"]+"|\S+)\s+(.+)$/);
+      if (match) {
+        current.fields[unquote(match[1])] = unquote(match[2]);
+      }
+    } else if (current && indent === 4 && (block === 'dependencies' || block === 'optionalDependencies')) {
+      const match = line.match(/^("[^"]+"|\S+)\s+(.+)$/);
+      if (match) {
+        current[block].push(`${unquote(match[1])}@${unquote(match[2])}`);
+      }
+    }
+  }
+  
+  return entries;
+}
+
+/**
+ * Yarn v1没有optional标记：只通过其他包的optionalDependencies引用的条目视为可选依赖
+ * yarn.lock不记录项目自身的依赖，项目package.json中的dependencies和devDependencies由调用方传入，视为非可选
+ */
+function findOptionalYarnEntries(entries: YarnLockEntry[], projectDescriptors: string[]): Set<YarnLockEntry> {
+  const bySpecifier = new Map<string, YarnLockEntry>();
+  entries.forEach(entry => entry.specifiers.forEach(specifier => bySpecifier.set(specifier, entry)));
+  
+  const optional = new Set<YarnLockEntry>();
+  const required = new Set<YarnLockEntry>();
+  projectDescriptors.forEach(descriptor => {
+    const target = bySpecifier.get(descriptor);
+    if (target) {
+      required.add(target);
+    }
+  });
+  entries.forEach(entry => {
+    entry.dependencies.forEach(dependency => {
+      const target = bySpecifier.get(dependency);
+      if (target) {
+        required.add(target);
+      }
+    });
+    entry.optionalDependencies.forEach(dependency => {
+      const target = bySpecifier.get(dependency);
+      if (target) {
+        optional.add(target);
+      }
+    });
+  });
+  
+  required.forEach(entry => optional.delete(entry));
+  return optional;
+}
+
+// 拆分 name@range 形式的描述符，兼容 @scope/name@range
+function parseYarnDescriptor(descriptor: string): { name: string; range: string } {
+  const atIndex = descriptor.indexOf('@', 1);
+  if (atIndex === -1) {
+    return { name: descriptor, range: '' };
+  }
+  return {
+    name: descriptor.slice(0, atIndex),
+    range: descriptor.slice(atIndex + 1)
+  };
+}
+
+// 解析允许注释和尾随逗号的JSON（bun.lock使用这种格式）
+function parseJsonc(content: string): any {
+  const withoutComments = transformJsonOutsideStrings(content, (text, i) => {
+    if (text[i] === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      return end === -1 ? text.length : end;
+    }
+    if (text[i] === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      return end === -1 ? text.length : end + 2;
+    }
+    return i;
+  });
+  
+  const withoutTrailingCommas = transformJsonOutsideStrings(withoutComments, (text, i) => {
+    return text[i] === ',' && /^\s*[}\]]/.test(text.slice(i + 1, i + 200)) ? i + 1 : i;
+  });
+  
+  return JSON.parse(withoutTrailingCommas);
+}
+
+// 遍历字符串外的字符，skip返回跳过后的位置（返回i表示保留当前字符）
+function transformJsonOutsideStrings(content: string, skip: (text: string, i: number) => number): string {
+  let result = '';
+  let inString = false;
+  
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += content[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    
+    const next = skip(content, i);
+    if (next !== i) {
+      i = next - 1;
+      continue;
+    }
+    
+    if (char === '"') {
+      inString = true;
+    }
+    result += char;
+  }
+  
+  return result;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
+
+// 保留lock文件条目中为true的依赖类型标记（npm的dev/optional/devOptional/peer，pnpm v6的dev/optional）
+function getDependencyFlags(entry: any): Pick<PackageItem, 'dev' | 'optional' | 'devOptional' | 'peer'> {
+  const flags: Pick<PackageItem, 'dev' | 'optional' | 'devOptional' | 'peer'> = {};
+  (['dev', 'optional', 'devOptional', 'peer'] as const).forEach(flag => {
+    if (entry?.[flag] === true) {
+      flags[flag] = true;
+    }
+  });
+  return flags;
+}
+
+// 解析yarn berry的平台条件，如 os=linux & cpu=x64 & libc=glibc
+function parseYarnConditions(conditions: unknown): PlatformConstraints {
+  const platform: Record<string, string[]> = {};
+  if (typeof conditions === 'string') {
+    conditions.split('&').map(condition => condition.trim().split('=')).forEach(([field, value]) => {
+      if ((PLATFORM_FIELDS as readonly string[]).includes(field) && value) {
+        platform[field] = [...(platform[field] || []), value];
+      }
+    });
+  }
+  return platform;
+}
+
+// 从lock文件路径中提取包名，如 node_modules/a/node_modules/@scope/b -> @scope/b
+function getPackageNameFromPath(lockPath: string): string {
+  const segments = lockPath.split('node_modules/');
+  return segments[segments.length - 1];
+}
+
 // 计算npm v6格式的总依赖数量
 function countTotalDependencies(deps: any): number {
   let count = 0;
@@ -0,0 +1,95 @@
+import path from 'path';
+import { PackageItem, PackageSource } from '../types';
+
+export const PACKAGE_SOURCE_LABELS: Record<PackageSource, string> = {
+  registry: 'registry',
+  tarball: 'tgz地址',
+  git: 'git',
+  file: '本地目录/文件',
+  link: '链接（跳过）'
+};
+
+/**
+ * 根据lock文件中的地址判断依赖来源
+ * registry格式的地址（<registry>/<name>/-/<file>）为registry，其他http(s)地址（如GitHub codeload）为tgz地址
+ */
+export function classifySource(resolved: string): PackageSource {
+  if (/^link:/.test(resolved)) {
+    return 'link';
+  }
+  if (isGitSpecifier(resolved)) {
+    return 'git';
+  }
+  if (/^https?:\/\//.test(resolved)) {
+    return resolved.split(/[?#]/)[0].includes('/-/') ? 'registry' : 'tarball';
+  }
+  return 'file';
+}
+
+export function isGitSpecifier(specifier: string): boolean {
+  return /^(git\+|git:|github:|gitlab:|bitbucket:|gist:)/.test(specifier)
+    || /^(ssh|https?):\/\/.+\.git(#.*)?$/.test(specifier);
+}
+
+/**
+ * 解析git依赖地址，返回可以直接clone的地址和锁定的提交
+ * 支持 git+ssh://...#sha、github:user/repo#sha 和Yarn Berry的 #commit=sha 写法
+ */
+export function parseGitSource(specifier: string): { url: string; commit?: string } {
+  const hashIndex = specifier.indexOf('#');
+  const base = hashIndex === -1 ? specifier : specifier.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : specifier.slice(hashIndex + 1);
+
+  let url = base.replace(/^git\+/, '');
+  const hosted = url.match(/^(github|gitlab|bitbucket):(.+)$/);
+  if (hosted) {
+    const host = hosted[1] === 'bitbucket' ? 'bitbucket.org' : `${hosted[1]}.com`;
+    url = `https://${host}/${hosted[2].replace(/\.git$/, '')}.git`;
+  }
+
+  let commit: string | undefined;
+  fragment.split('&').forEach(part => {
+    const [key, value] = part.includes('=') ? part.split('=') : ['', part];
+    if ((key === 'commit' || key === '') && /^[0-9a-f]{7,40}$/i.test(value)) {
+      commit = value;
+    }
+  });
+
+  return { url, commit };
+}
+
+/**
+ * 本地目录和文件依赖的地址改为绝对路径
+ * @param baseDir lock文件所在目录，lock文件中的相对路径基于该目录
+ */
+export function resolveLocalSources(packages: PackageItem[], baseDir: string): PackageItem[] {
+  return packages.map(pkg => {
+    if (pkg.source !== 'file' && pkg.source !== 'link') {
+      return pkg;
+    }
+    const localPath = pkg.resolved.replace(/^(file|link):/, '');
+    return { ...pkg, resolved: `${pkg.source}:${path.resolve(baseDir, localPath)}` };
+  });
+}
+
+/**
+ * 获取本地依赖的绝对路径
+ */
+export function getLocalSourcePath(pkg: PackageItem): string {
+  return pkg.resolved.replace(/^(file|link):/, '');
+}
+
+/**
+ * 按来源分组，未标记来源的包视为registry包
+ */
+export function groupBySource(packages: PackageItem[]): Map<PackageSource, PackageItem[]> {
+  const groups = new Map<PackageSource, PackageItem[]>();
+  packages.forEach(pkg => {
+    const source = pkg.source || 'registry';
+    if (!groups.has(source)) {
+      groups.set(source, []);
+    }
+    groups.get(source)!.push(pkg);
+  });
+  return groups;
+}
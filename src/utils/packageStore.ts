@@ -0,0 +1,162 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { PackageManifest } from './packageManifest';
+import { DEFAULT_LAYOUT, LayoutConfig, isReservedEntry } from './storageLayout';
+
+export interface StoredTarball {
+  name: string;
+  version: string;
+  // registry中的文件名，content布局中实际文件以哈希命名
+  fileName: string;
+  tarballPath: string;
+  // packument所在的目录
+  packageDir: string;
+}
+
+export interface StoredPackage {
+  name: string;
+  packument: any;
+  tarballs: Map<string, StoredTarball>;
+}
+
+export interface PackageStore {
+  directory: string;
+  layout: LayoutConfig;
+  manifest: PackageManifest;
+}
+
+/**
+ * 读取packages目录的清单和存储布局
+ */
+export async function loadPackageStore(directory: string): Promise<PackageStore> {
+  const manifest = await PackageManifest.load(directory);
+  return { directory, layout: manifest.getLayout() || DEFAULT_LAYOUT, manifest };
+}
+
+/**
+ * 扫描packages目录，收集每个包的packument和实际存在的tgz文件
+ * 同一个包可能出现在多个嵌套目录中，结果按包名合并
+ */
+export async function scanStoredPackages(directory: string): Promise<Map<string, StoredPackage>> {
+  const storedPackages = new Map<string, StoredPackage>();
+
+  if (await fs.pathExists(directory)) {
+    await scanDirectory(directory, await loadPackageStore(directory), storedPackages);
+  }
+
+  return storedPackages;
+}
+
+/**
+ * 查找packument对应的tgz文件
+ * nested布局在packument所在目录中，flat布局在 <version>/ 子目录中，content布局从manifest.json中查找
+ */
+export async function findPackageTarballs(store: PackageStore, packageDir: string, packument: any): Promise<StoredTarball[]> {
+  const tarballs: StoredTarball[] = [];
+  const versions = Object.keys(packument?.versions || {});
+
+  if (store.layout.type === 'content') {
+    for (const version of versions) {
+      const entry = store.manifest.findVersion(packument.name, version);
+      const tarballPath = entry && path.join(store.directory, entry.path);
+      if (tarballPath && await fs.pathExists(tarballPath)) {
+        tarballs.push({ name: packument.name, version, fileName: getRegistryFileName(packument, version), tarballPath, packageDir });
+      }
+    }
+    return tarballs;
+  }
+
+  const directories = store.layout.type === 'flat'
+    ? versions.map(version => path.join(packageDir, version))
+    : [packageDir];
+  for (const tarballDir of directories) {
+    const items = await fs.readdir(tarballDir).catch(() => [] as string[]);
+    for (const fileName of items.filter(item => path.extname(item) === '.tgz')) {
+      const version = findVersionForTarball(packument, fileName);
+      if (version) {
+        tarballs.push({ name: packument.name, version, fileName, tarballPath: path.join(tarballDir, fileName), packageDir });
+      }
+    }
+  }
+  return tarballs;
+}
+
+async function scanDirectory(directory: string, store: PackageStore, storedPackages: Map<string, StoredPackage>): Promise<void> {
+  const items = await fs.readdir(directory);
+  let hasPackageJson = false;
+
+  for (const item of items) {
+    const fullPath = path.join(directory, item);
+    const stat = await fs.lstat(fullPath);
+
+    if (stat.isDirectory() && !isReservedEntry(item)) {
+      await scanDirectory(fullPath, store, storedPackages);
+    } else if (item === 'package.json') {
+      hasPackageJson = true;
+    }
+  }
+
+  if (!hasPackageJson) {
+    return;
+  }
+
+  let packument: any;
+  try {
+    packument = await fs.readJSON(path.join(directory, 'package.json'));
+  } catch {
+    return;
+  }
+
+  if (!packument || !packument.name || !packument.versions) {
+    return;
+  }
+
+  const tarballs = await findPackageTarballs(store, directory, packument);
+  if (tarballs.length === 0) {
+    return;
+  }
+
+  let storedPackage = storedPackages.get(packument.name);
+  if (!storedPackage) {
+    storedPackage = { name: packument.name, packument, tarballs: new Map() };
+    storedPackages.set(packument.name, storedPackage);
+  } else {
+    // 不同目录中的packument获取时间可能不同，合并版本信息
+    storedPackage.packument = {
+      ...packument,
+      versions: { ...storedPackage.packument.versions, ...packument.versions },
+      time: { ...storedPackage.packument.time, ...packument.time }
+    };
+  }
+
+  for (const tarball of tarballs) {
+    if (!storedPackage.tarballs.has(tarball.version)) {
+      storedPackage.tarballs.set(tarball.version, tarball);
+    }
+  }
+}
+
+function getRegistryFileName(packument: any, version: string): string {
+  const tarballUrl: string | undefined = packument.versions[version]?.dist?.tarball;
+  const fileName = tarballUrl ? decodeURIComponent(tarballUrl.split('/').pop() || '') : '';
+  return fileName.endsWith('.tgz') ? fileName : `${String(packument.name).split('/').pop()}-${version}.tgz`;
+}
+
+/**
+ * 根据packument中的dist.tarball或默认命名规则确定tgz文件对应的版本
+ */
+function findVersionForTarball(packument: any, fileName: string): string | null {
+  const baseName = String(packument.name).split('/').pop();
+
+  for (const [version, manifest] of Object.entries<any>(packument.versions)) {
+    const tarballUrl: string | undefined = manifest?.dist?.tarball;
+    if (tarballUrl && decodeURIComponent(tarballUrl.split('/').pop() || '') === fileName) {
+      return version;
+    }
+    if (`${baseName}-${version}.tgz` === fileName) {
+      return version;
+    }
+  }
+
+  return null;
+}
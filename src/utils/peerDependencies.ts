@@ -0,0 +1,58 @@
+import semver from 'semver';
+import { LockData } from '../types';
+import { resolveDependencyKey } from './workspaces';
+
+export interface MissingPeer {
+  name: string;
+  // 每个依赖方要求的版本范围，选出的版本需要同时满足
+  ranges: string[];
+  // 所有依赖方都在peerDependenciesMeta中标记为optional
+  optional: boolean;
+  // 依赖方的 name@version
+  requiredBy: string[];
+}
+
+/**
+ * 找出npm lock文件（lockfileVersion 2/3）中按Node查找规则找不到的peer依赖
+ * npm 7+ 会自动安装必需的peer依赖，可选的peer依赖和legacy-peer-deps下的peer依赖不会出现在lock文件中
+ */
+export function findMissingPeers(lockData: LockData, includeOptional = false): MissingPeer[] {
+  const packages = lockData.packages || {};
+  const missing = new Map<string, MissingPeer>();
+
+  Object.entries(packages).forEach(([location, entry]) => {
+    if (!location.includes('node_modules/')) {
+      return;
+    }
+
+    const peerMeta = entry.peerDependenciesMeta || {};
+    Object.entries(entry.peerDependencies || {}).forEach(([name, range]) => {
+      const optional = peerMeta[name]?.optional === true;
+      if ((optional && !includeOptional) || resolveDependencyKey(packages, location, name)) {
+        return;
+      }
+      const peer = missing.get(name) || { name, ranges: [], optional: true, requiredBy: [] };
+      if (!peer.ranges.includes(range)) {
+        peer.ranges.push(range);
+      }
+      peer.optional = peer.optional && optional;
+      peer.requiredBy.push(`${entry.name || location.split('node_modules/').pop()}@${entry.version}`);
+      missing.set(name, peer);
+    });
+  });
+
+  return Array.from(missing.values());
+}
+
+/**
+ * 选出同时满足所有范围的版本，与npm一样优先使用latest标签，其次是最高的正式版本
+ */
+export function selectPeerVersion(versions: string[], ranges: string[], latest?: string): string | undefined {
+  const satisfies = (version: string) => ranges.every(range => semver.satisfies(version, range, { includePrerelease: true }));
+  if (latest && semver.valid(latest) && satisfies(latest)) {
+    return latest;
+  }
+  const candidates = versions.filter(version => semver.valid(version) && satisfies(version));
+  const stable = candidates.filter(version => !semver.prerelease(version));
+  return semver.rsort(stable.length > 0 ? stable : candidates)[0];
+}
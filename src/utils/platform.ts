@@ -0,0 +1,146 @@
+import chalk from 'chalk';
+import { PackageItem } from '../types';
+import { networkOptimizer } from './networkOptimizer';
+import { formatBytes } from './fileUtils';
+import { RegistryResolver } from './registry';
+
+export const PLATFORM_FIELDS = ['os', 'cpu', 'libc'] as const;
+
+export type PlatformConstraints = Pick<PackageItem, 'os' | 'cpu' | 'libc'>;
+
+export interface TargetPlatform {
+  os: string;
+  cpu: string;
+  // 只对linux有意义，glibc或musl
+  libc?: string;
+}
+
+const LIBC_NAMES = ['glibc', 'musl'];
+
+/**
+ * 解析 --platform 参数，如 linux-x64、linux-arm64-musl、darwin-arm64、win32-x64
+ * 支持多次指定和逗号分隔，linux未指定libc时视为glibc
+ */
+export function parsePlatforms(values: string[] = []): TargetPlatform[] {
+  return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean).map(value => {
+    const [os, cpu, libc, ...rest] = value.split('-');
+    if (!os || !cpu || rest.length > 0 || (libc && !LIBC_NAMES.includes(libc))) {
+      throw new Error(`无效的目标平台: ${value}（格式为 <os>-<cpu>[-<libc>]，如 linux-x64、linux-arm64-musl）`);
+    }
+    if (libc && os !== 'linux') {
+      throw new Error(`只有linux平台可以指定libc: ${value}`);
+    }
+    return { os, cpu, libc: os === 'linux' ? libc || 'glibc' : undefined };
+  });
+}
+
+export function formatPlatform(platform: TargetPlatform): string {
+  return [platform.os, platform.cpu, platform.libc].filter(Boolean).join('-');
+}
+
+/**
+ * 从lock文件条目或packument版本中读取os/cpu/libc，字符串统一转换为数组
+ */
+export function getPlatformConstraints(entry: any): PlatformConstraints {
+  const constraints: PlatformConstraints = {};
+  PLATFORM_FIELDS.forEach(field => {
+    const value = entry?.[field];
+    const list = (Array.isArray(value) ? value : typeof value === 'string' ? [value] : []).filter(item => typeof item === 'string');
+    if (list.length > 0) {
+      constraints[field] = list;
+    }
+  });
+  return constraints;
+}
+
+export function hasPlatformConstraints(constraints: PlatformConstraints): boolean {
+  return PLATFORM_FIELDS.some(field => (constraints[field]?.length || 0) > 0);
+}
+
+/**
+ * 按npm的规则判断包是否支持目标平台
+ * 每个字段都是允许列表，!开头的值表示排除，libc只在目标为linux时检查
+ */
+export function matchesPlatform(constraints: PlatformConstraints, target: TargetPlatform): boolean {
+  return matchesList(constraints.os, target.os)
+    && matchesList(constraints.cpu, target.cpu)
+    && (target.os !== 'linux' || matchesList(constraints.libc, target.libc));
+}
+
+export function matchesAnyPlatform(constraints: PlatformConstraints, targets: TargetPlatform[]): boolean {
+  return targets.length === 0 || targets.some(target => matchesPlatform(constraints, target));
+}
+
+/**
+ * 可选依赖不支持任何目标平台时可以跳过，非可选依赖始终保留
+ */
+export function isSkippedForPlatforms(pkg: PackageItem, targets: TargetPlatform[]): boolean {
+  return Boolean(pkg.optional || pkg.devOptional)
+    && hasPlatformConstraints(pkg)
+    && !matchesAnyPlatform(pkg, targets);
+}
+
+/**
+ * lock文件没有记录os/cpu/libc的可选依赖（npm lockfileVersion 1、Yarn v1），从registry中该版本的manifest补充
+ * 获取失败的包保持原样，不会被跳过
+ */
+export async function fillPlatformConstraints(
+  packages: PackageItem[],
+  registryResolver: RegistryResolver,
+  concurrency?: number
+): Promise<PackageItem[]> {
+  const missing = packages.filter(pkg => (pkg.optional || pkg.devOptional) && pkg.source === 'registry' && !hasPlatformConstraints(pkg));
+  if (missing.length === 0) {
+    return packages;
+  }
+
+  console.log(chalk.gray(`🔎 从registry获取 ${missing.length} 个可选包的平台信息...`));
+  const results = await networkOptimizer.batchGet(missing.map(pkg => registryResolver.getVersionUrl(pkg.name, pkg.version)), concurrency);
+  const filled = new Map<PackageItem, PlatformConstraints>();
+  let failed = 0;
+  results.forEach((result, index) => {
+    if (result.error || !result.data) {
+      failed++;
+    } else {
+      filled.set(missing[index], getPlatformConstraints(result.data));
+    }
+  });
+  if (failed > 0) {
+    console.log(chalk.yellow(`⚠️  ${failed} 个可选包的平台信息获取失败，将照常下载`));
+  }
+
+  return packages.map(pkg => filled.has(pkg) ? { ...pkg, ...filled.get(pkg) } : pkg);
+}
+
+/**
+ * 输出按目标平台跳过的包，并按tgz地址的Content-Length统计节省的大小
+ * @param title 跳过的内容，如 "可选包"、"额外版本"
+ */
+export async function printPlatformSkipReport(skipped: PackageItem[], targets: TargetPlatform[], title: string): Promise<void> {
+  if (skipped.length === 0) {
+    return;
+  }
+
+  const urls = skipped.filter(pkg => /^https?:\/\//.test(pkg.resolved)).map(pkg => pkg.resolved);
+  const sizes = await networkOptimizer.getContentLengths(urls);
+  const totalSize = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+  const unknown = skipped.filter(pkg => !sizes.has(pkg.resolved)).length;
+
+  console.log(chalk.gray(`⏭️  根据目标平台（${targets.map(formatPlatform).join(', ')}）跳过 ${skipped.length} 个${title}，节省约 ${formatBytes(totalSize)}${unknown > 0 ? `（${unknown} 个大小未知）` : ''}`));
+  skipped.forEach(pkg => {
+    const platform = PLATFORM_FIELDS.filter(field => pkg[field]?.length).map(field => `${field}: ${pkg[field]!.join('|')}`).join(', ');
+    const size = sizes.has(pkg.resolved) ? `，${formatBytes(sizes.get(pkg.resolved)!)}` : '';
+    console.log(chalk.gray(`    - ${pkg.name}@${pkg.version} (${platform}${size})`));
+  });
+}
+
+function matchesList(list: string[] | undefined, value: string | undefined): boolean {
+  if (!list || list.length === 0 || value === undefined) {
+    return true;
+  }
+  if (list.includes(`!${value}`)) {
+    return false;
+  }
+  const allowed = list.filter(item => !item.startsWith('!'));
+  return allowed.length === 0 || allowed.includes(value) || allowed.includes('any');
+}
@@ -0,0 +1,107 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { PackageItem } from '../types';
+import { getIntegrityAlgorithms, parseIntegrity } from './integrity';
+import { VARIANTS_DIR, getPackageKey } from './storageLayout';
+
+export interface ProjectPackages {
+  // 项目目录或lock文件路径，同时作为manifest.json中的来源
+  project: string;
+  packages: PackageItem[];
+}
+
+export interface MergedPackages {
+  packages: PackageItem[];
+  // 每个包的来源项目，键为getPackageKey
+  sources: Map<string, string[]>;
+  // 同名同版本但integrity与先出现的项目不同的包，作为variant单独下载和保存
+  conflicts: Array<{ key: string; kept: string; project: string; variant: string }>;
+}
+
+/**
+ * 读取项目列表文件，每行一个项目目录或lock文件路径
+ * 忽略空行和 # 开头的注释，相对路径基于列表文件所在目录
+ */
+export async function readProjectList(listFile: string): Promise<string[]> {
+  const filePath = path.resolve(listFile);
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`未找到项目列表文件: ${filePath}`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => path.resolve(path.dirname(filePath), line));
+}
+
+/**
+ * 合并多个项目的依赖，按 name@version 和integrity去重
+ * integrity只在共同的算法上比较：缺少integrity或没有共同算法（如yarn v1的sha1和npm的sha512）的条目视为同一个包
+ * 共同算法的摘要与已有条目都不同时标记为variant，保存在 _variants/<variant>/<lock路径>/ 中
+ */
+export function mergeProjectPackages(projects: ProjectPackages[]): MergedPackages {
+  const merged = new Map<string, { pkg: PackageItem; project: string }>();
+  // 每个 name@version 已有条目的键，第一个为非variant条目
+  const keysByVersion = new Map<string, string[]>();
+  const sources = new Map<string, string[]>();
+  const conflicts: MergedPackages['conflicts'] = [];
+
+  projects.forEach(({ project, packages }) => {
+    packages.forEach(pkg => {
+      const versionKey = `${pkg.name}@${pkg.version}`;
+      const keys = keysByVersion.get(versionKey) || [];
+      let key = keys.find(existingKey => !hasConflictingIntegrity(merged.get(existingKey)!.pkg.integrity, pkg.integrity));
+
+      if (key) {
+        const current = merged.get(key)!;
+        if (!current.pkg.integrity && pkg.integrity) {
+          merged.set(key, { pkg: { ...pkg, variant: current.pkg.variant }, project });
+        } else if (getIntegrityAlgorithms(pkg.integrity).some(algorithm => !parseIntegrity(current.pkg.integrity).has(algorithm))) {
+          // 保留两边的算法，下载时按最强的共同算法校验
+          current.pkg = { ...current.pkg, integrity: `${current.pkg.integrity} ${pkg.integrity}` };
+        }
+      } else {
+        const stored = keys.length > 0 ? { ...pkg, variant: getVariantId(pkg.integrity!) } : pkg;
+        key = getPackageKey(stored);
+        merged.set(key, { pkg: stored, project });
+        keysByVersion.set(versionKey, [...keys, key]);
+      }
+
+      const variant = merged.get(key)!.pkg.variant;
+      if (variant && !conflicts.some(conflict => conflict.key === versionKey && conflict.project === project)) {
+        conflicts.push({ key: versionKey, kept: merged.get(keys[0])!.project, project, variant: `${VARIANTS_DIR}/${variant}` });
+      }
+
+      const projectSources = sources.get(key) || [];
+      if (!projectSources.includes(project)) {
+        sources.set(key, [...projectSources, project]);
+      }
+    });
+  });
+
+  return {
+    packages: Array.from(merged.values()).map(item => item.pkg),
+    sources,
+    conflicts
+  };
+}
+
+/**
+ * 两个integrity在共同的算法上摘要不同时视为不同的tgz文件
+ */
+function hasConflictingIntegrity(existing?: string, incoming?: string): boolean {
+  const existingHashes = parseIntegrity(existing);
+  const incomingHashes = parseIntegrity(incoming);
+  return getIntegrityAlgorithms(existing, incoming).some(algorithm =>
+    existingHashes.has(algorithm) && incomingHashes.has(algorithm) && existingHashes.get(algorithm) !== incomingHashes.get(algorithm)
+  );
+}
+
+/**
+ * 使用integrity摘要的前12位十六进制作为variant目录名
+ */
+function getVariantId(integrity: string): string {
+  const digest = integrity.trim().split(/\s+/)[0];
+  return Buffer.from(digest.slice(digest.indexOf('-') + 1), 'base64').toString('hex').slice(0, 12);
+}
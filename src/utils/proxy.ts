@@ -0,0 +1,305 @@
+import fs from 'fs-extra';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import { Duplex } from 'stream';
+import { NpmrcConfig, getNpmrcBoolean } from './npmrc';
+import { registerSecret } from './auth';
+
+export interface NetworkSettings {
+  httpProxy?: string;
+  httpsProxy?: string;
+  // 不走代理的host，支持 *、.example.com 和 host:port
+  noProxy: string[];
+  // 额外信任的CA证书（PEM），与Node内置的根证书一起使用
+  ca: string[];
+  strictSSL: boolean;
+}
+
+// 配置文件中的网络设置，未配置的项使用.npmrc和环境变量
+export interface NetworkConfig {
+  proxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+  cafile?: string;
+  strictSSL?: boolean;
+}
+
+let currentSettings: NetworkSettings = {
+  httpProxy: readEnvProxy(process.env, 'http'),
+  httpsProxy: readEnvProxy(process.env, 'https') || readEnvProxy(process.env, 'http'),
+  noProxy: splitNoProxy(process.env.NO_PROXY || process.env.no_proxy),
+  ca: [],
+  strictSSL: true
+};
+
+/**
+ * 合并代理和证书设置，优先级：配置文件 > .npmrc（含npm_config_*环境变量） > HTTPS_PROXY等环境变量
+ */
+export async function resolveNetworkSettings(
+  npmrc: NpmrcConfig,
+  config: NetworkConfig = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<NetworkSettings> {
+  const httpProxy = normalizeProxy(config.proxy) ?? normalizeProxy(npmrc.values.proxy) ?? readEnvProxy(env, 'http');
+  const httpsProxy = normalizeProxy(config.httpsProxy)
+    ?? normalizeProxy(npmrc.values['https-proxy'])
+    ?? readEnvProxy(env, 'https')
+    ?? httpProxy;
+  const noProxy = config.noProxy ?? npmrc.values.noproxy ?? env.NO_PROXY ?? env.no_proxy;
+
+  const ca: string[] = [];
+  const cafile = config.cafile || npmrc.values.cafile;
+  if (cafile) {
+    try {
+      ca.push(...splitCertificates(await fs.readFile(cafile, 'utf8')));
+    } catch (error) {
+      throw new Error(`读取CA证书失败: ${cafile} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (npmrc.values.ca) {
+    // .npmrc中的证书通常以 \n 转义写在一行中
+    ca.push(...splitCertificates(npmrc.values.ca.replace(/\\n/g, '\n')));
+  }
+
+  [httpProxy, httpsProxy].forEach(proxy => {
+    if (proxy) {
+      const { password } = new URL(proxy);
+      registerSecret(decodeURIComponent(password));
+    }
+  });
+
+  return {
+    httpProxy,
+    httpsProxy,
+    noProxy: splitNoProxy(noProxy),
+    ca,
+    strictSSL: config.strictSSL ?? getNpmrcBoolean(npmrc.values, 'strict-ssl', true)
+  };
+}
+
+/**
+ * 设置全局使用的代理和证书，之后创建的连接代理都会使用该设置
+ */
+export function configureNetwork(settings: NetworkSettings): void {
+  currentSettings = settings;
+}
+
+export function getNetworkSettings(): NetworkSettings {
+  return currentSettings;
+}
+
+/**
+ * 获取请求地址使用的代理，不需要代理时返回undefined
+ */
+export function getProxyForUrl(url: string, settings: NetworkSettings = currentSettings): string | undefined {
+  const parsed = new URL(url);
+  const port = parsed.port || (parsed.protocol === 'https:' ? '443' : '80');
+  if (shouldBypassProxy(parsed.hostname, port, settings.noProxy)) {
+    return undefined;
+  }
+  return parsed.protocol === 'https:' ? settings.httpsProxy : settings.httpProxy;
+}
+
+/**
+ * 按当前的网络设置创建http/https连接代理
+ * 需要代理的http请求以绝对地址发给代理转发，https请求通过CONNECT建立隧道，同时信任额外的CA证书并遵循strict-ssl
+ */
+export function createNetworkAgents(options: http.AgentOptions = {}): { http: http.Agent; https: https.Agent } {
+  const settings = currentSettings;
+  return {
+    http: new ProxyHttpAgent(settings, options),
+    https: new ProxyHttpsAgent(settings, {
+      ...options,
+      ca: settings.ca.length > 0 ? [...tls.rootCertificates, ...settings.ca] : undefined,
+      rejectUnauthorized: settings.strictSSL
+    })
+  };
+}
+
+class ProxyHttpAgent extends http.Agent {
+  constructor(private settings: NetworkSettings, options: http.AgentOptions) {
+    super(options);
+  }
+
+  /**
+   * 需要代理的请求直接发给代理：请求行使用绝对地址，并附带代理认证
+   * 很多代理（如squid）只允许CONNECT到443端口，因此普通http请求不使用隧道
+   */
+  addRequest(request: http.ClientRequest, options: http.ClientRequestArgs): void {
+    const { host, port } = getTarget(options);
+    const proxy = getProxyForUrl(`http://${formatHost(host)}:${port}`, this.settings);
+    if (proxy) {
+      request.path = `http://${formatHost(host)}${port === 80 ? '' : `:${port}`}${request.path}`;
+      const authorization = getProxyAuthorization(new URL(proxy));
+      if (authorization) {
+        request.setHeader('proxy-authorization', authorization);
+      }
+    }
+    // addRequest不在http.Agent的类型声明中
+    (http.Agent.prototype as any).addRequest.call(this, request, options);
+  }
+
+  createConnection(
+    options: http.ClientRequestArgs,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const { host, port } = getTarget(options);
+    const proxy = getProxyForUrl(`http://${formatHost(host)}:${port}`, this.settings);
+    if (!proxy) {
+      return super.createConnection(options, callback);
+    }
+
+    return connectProxy(new URL(proxy));
+  }
+}
+
+class ProxyHttpsAgent extends https.Agent {
+  constructor(private settings: NetworkSettings, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const { host, port } = getTarget(options, 443);
+    const proxy = getProxyForUrl(`https://${formatHost(host)}:${port}`, this.settings);
+    if (!proxy) {
+      return super.createConnection(options, callback);
+    }
+
+    openTunnel(proxy, host, port, options.timeout)
+      .then(socket => {
+        const secureSocket = tls.connect({
+          ...(options as tls.ConnectionOptions),
+          socket,
+          host,
+          servername: options.servername || (isIpAddress(host) ? undefined : host)
+        });
+        callback?.(null, secureSocket);
+      }, error => callback?.(error, undefined as unknown as Duplex));
+    return undefined;
+  }
+}
+
+/**
+ * 通过代理的CONNECT方法建立到目标host的隧道
+ */
+function openTunnel(proxyUrl: string, host: string, port: number, timeout = 30000): Promise<Duplex> {
+  return new Promise((resolve, reject) => {
+    const proxy = new URL(proxyUrl);
+    const target = `${formatHost(host)}:${port}`;
+    const headers: http.OutgoingHttpHeaders = { host: target };
+    const authorization = getProxyAuthorization(proxy);
+    if (authorization) {
+      headers['proxy-authorization'] = authorization;
+    }
+
+    const request = (proxy.protocol === 'https:' ? https : http).request({
+      method: 'CONNECT',
+      host: getProxyHost(proxy),
+      port: getProxyPort(proxy),
+      path: target,
+      headers,
+      agent: false
+    });
+
+    request.setTimeout(timeout, () => {
+      request.destroy(new Error(`连接代理超时: ${proxy.host}`));
+    });
+    request.once('connect', (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`代理拒绝连接 ${target}: ${response.statusCode} ${response.statusMessage || ''}`.trim()));
+      }
+    });
+    request.once('error', error => {
+      reject(new Error(`连接代理失败: ${proxy.host} - ${error.message}`));
+    });
+    request.end();
+  });
+}
+
+/**
+ * 建立到代理本身的连接，用于转发普通http请求
+ */
+function connectProxy(proxy: URL): Duplex {
+  const host = getProxyHost(proxy);
+  const port = getProxyPort(proxy);
+  return proxy.protocol === 'https:'
+    ? tls.connect({ host, port, servername: isIpAddress(host) ? undefined : host })
+    : net.connect({ host, port });
+}
+
+// 代理地址中的用户名密码用于Basic认证
+function getProxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+function getProxyHost(proxy: URL): string {
+  return proxy.hostname.replace(/^\[|\]$/g, '');
+}
+
+function getProxyPort(proxy: URL): number {
+  return Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80);
+}
+
+function getTarget(options: http.ClientRequestArgs, defaultPort = 80): { host: string; port: number } {
+  return {
+    host: options.hostname || options.host || 'localhost',
+    port: Number(options.port) || defaultPort
+  };
+}
+
+function shouldBypassProxy(hostname: string, port: string, noProxy: string[]): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return noProxy.some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+    const [entryHost, entryPort] = entry.startsWith('[')
+      ? [entry.slice(1, entry.indexOf(']')), entry.slice(entry.indexOf(']') + 2)]
+      : entry.split(':');
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    const domain = entryHost.replace(/^\*?\./, '').toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+function readEnvProxy(env: NodeJS.ProcessEnv, protocol: 'http' | 'https'): string | undefined {
+  return normalizeProxy(env[`${protocol.toUpperCase()}_PROXY`]) ?? normalizeProxy(env[`${protocol}_proxy`]);
+}
+
+// .npmrc中 proxy=、proxy=null、proxy=false 都表示不使用代理
+function normalizeProxy(proxy?: string): string | undefined {
+  if (!proxy || proxy === 'null' || proxy === 'false') {
+    return undefined;
+  }
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`;
+}
+
+function splitNoProxy(noProxy?: string): string[] {
+  return (noProxy || '').split(/[,\s]+/).map(entry => entry.trim()).filter(Boolean);
+}
+
+function splitCertificates(content: string): string[] {
+  return content.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+}
+
+function formatHost(host: string): string {
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+function isIpAddress(host: string): boolean {
+  return /^[\d.]+$/.test(host) || host.includes(':');
+}
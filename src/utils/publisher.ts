@@ -0,0 +1,285 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import http from 'http';
+import https from 'https';
+import semver from 'semver';
+import { Semaphore } from './downloader';
+import { StoredPackage, StoredTarball } from './packageStore';
+import { RegistryResolver } from './registry';
+import { createNetworkAgents } from './proxy';
+
+export interface PublishOptions {
+  registry: string;
+  token?: string;
+  // 未提供token时按.npmrc中目标registry的凭据认证
+  registryResolver?: RegistryResolver;
+  concurrency?: number;
+  tag?: string;
+}
+
+export interface PublishProgress {
+  total: number;
+  published: number;
+  skipped: number;
+  failed: number;
+  current?: string;
+}
+
+export interface FailedUpload extends StoredTarball {
+  error: string;
+}
+
+export interface PublishResult {
+  published: StoredTarball[];
+  skipped: StoredTarball[];
+  failed: FailedUpload[];
+}
+
+/**
+ * 使用npm publish协议将packages目录中的tgz发布到私有registry
+ * 同一个包的版本按顺序发布，避免并发写入同一个文档产生冲突
+ */
+export class PackagePublisher {
+  private registry: string;
+  private token?: string;
+  private concurrency: number;
+  private tag?: string;
+  private registryResolver?: RegistryResolver;
+  // 使用当前的代理和证书设置
+  private agents: { http: http.Agent; https: https.Agent };
+  private progress: PublishProgress = { total: 0, published: 0, skipped: 0, failed: 0 };
+  private onProgress?: (progress: PublishProgress) => void;
+
+  constructor(options: PublishOptions) {
+    this.registry = options.registry.replace(/\/$/, '');
+    this.token = options.token;
+    this.concurrency = options.concurrency || 5;
+    this.tag = options.tag;
+    this.registryResolver = options.registryResolver;
+    this.agents = createNetworkAgents({ keepAlive: true });
+  }
+
+  setProgressCallback(callback: (progress: PublishProgress) => void) {
+    this.onProgress = callback;
+  }
+
+  async publish(storedPackages: Map<string, StoredPackage>): Promise<PublishResult> {
+    const result: PublishResult = { published: [], skipped: [], failed: [] };
+    const packages = Array.from(storedPackages.values()).filter(pkg => pkg.tarballs.size > 0);
+
+    this.progress = {
+      total: packages.reduce((count, pkg) => count + pkg.tarballs.size, 0),
+      published: 0,
+      skipped: 0,
+      failed: 0
+    };
+
+    const semaphore = new Semaphore(this.concurrency);
+
+    const publishPromises = packages.map(async (storedPackage) => {
+      const release = await semaphore.acquire();
+      try {
+        await this.publishPackage(storedPackage, result);
+      } finally {
+        release();
+      }
+    });
+
+    await Promise.allSettled(publishPromises);
+    return result;
+  }
+
+  private async publishPackage(storedPackage: StoredPackage, result: PublishResult): Promise<void> {
+    const tarballs = Array.from(storedPackage.tarballs.values())
+      .sort((a, b) => semver.compare(a.version, b.version));
+
+    let existingVersions: Set<string>;
+    try {
+      existingVersions = await this.getExistingVersions(storedPackage.name);
+    } catch (error) {
+      // 无法获取目标registry中的版本信息，该包的所有版本都记为失败
+      const message = formatPublishError(error);
+      tarballs.forEach(tarball => this.markFailed(result, tarball, `获取已有版本失败: ${message}`));
+      return;
+    }
+
+    for (const tarball of tarballs) {
+      this.progress.current = `${tarball.name}@${tarball.version}`;
+      this.updateProgress();
+
+      if (existingVersions.has(tarball.version)) {
+        result.skipped.push(tarball);
+        this.progress.skipped++;
+        this.updateProgress();
+        continue;
+      }
+
+      try {
+        await this.publishTarball(storedPackage, tarball, existingVersions);
+        existingVersions.add(tarball.version);
+        result.published.push(tarball);
+        this.progress.published++;
+        this.updateProgress();
+      } catch (error) {
+        this.markFailed(result, tarball, formatPublishError(error));
+      }
+    }
+  }
+
+  /**
+   * 获取目标registry中已存在的版本，包不存在时返回空集合
+   */
+  private async getExistingVersions(name: string): Promise<Set<string>> {
+    try {
+      const url = `${this.registry}/${encodePackageName(name)}`;
+      const response = await axios.get(url, {
+        timeout: 30000,
+        httpAgent: this.agents.http,
+        httpsAgent: this.agents.https,
+        proxy: false,
+        headers: this.getHeaders(url, { 'Accept': 'application/json' })
+      });
+      return new Set(Object.keys(response.data?.versions || {}));
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return new Set();
+      }
+      throw error;
+    }
+  }
+
+  private async publishTarball(storedPackage: StoredPackage, tarball: StoredTarball, existingVersions: Set<string>): Promise<void> {
+    const { name, version } = tarball;
+    const data = await fs.readFile(tarball.tarballPath);
+    const manifest = storedPackage.packument.versions?.[version];
+
+    if (!manifest) {
+      throw new Error(`package.json中缺少版本信息: ${version}`);
+    }
+
+    const { _resolved, _from, _nodeVersion, _npmVersion, _npmUser, _hasShrinkwrap, ...versionManifest } = manifest;
+
+    const body = {
+      _id: name,
+      name,
+      description: manifest.description,
+      'dist-tags': this.getDistTags(storedPackage, version, existingVersions),
+      versions: {
+        [version]: {
+          ...versionManifest,
+          _id: `${name}@${version}`,
+          dist: {
+            integrity: `sha512-${crypto.createHash('sha512').update(data).digest('base64')}`,
+            shasum: crypto.createHash('sha1').update(data).digest('hex'),
+            tarball: `${this.registry}/${name}/-/${tarball.fileName}`
+          }
+        }
+      },
+      readme: manifest.readme || storedPackage.packument.readme || '',
+      _attachments: {
+        [`${name}-${version}.tgz`]: {
+          content_type: 'application/octet-stream',
+          data: data.toString('base64'),
+          length: data.length
+        }
+      }
+    };
+
+    const url = `${this.registry}/${encodePackageName(name)}`;
+    await axios.put(url, body, {
+      timeout: 120000,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      httpAgent: this.agents.http,
+      httpsAgent: this.agents.https,
+      proxy: false,
+      headers: this.getHeaders(url, { 'Content-Type': 'application/json' })
+    });
+  }
+
+  /**
+   * 沿用上游指向该版本的dist-tags
+   * 与npm一致，目标registry中还没有该包时没有其他dist-tag的版本发布为latest，已有的包只使用上游的dist-tag
+   */
+  private getDistTags(storedPackage: StoredPackage, version: string, existingVersions: Set<string>): Record<string, string> {
+    if (this.tag) {
+      return { [this.tag]: version };
+    }
+
+    const distTags: Record<string, string> = {};
+    Object.entries<string>(storedPackage.packument['dist-tags'] || {}).forEach(([tag, taggedVersion]) => {
+      if (taggedVersion === version) {
+        distTags[tag] = version;
+      }
+    });
+
+    if (Object.keys(distTags).length === 0 && existingVersions.size === 0) {
+      distTags.latest = version;
+    }
+
+    return distTags;
+  }
+
+  private getHeaders(url: string, headers: Record<string, string>): Record<string, string> {
+    return {
+      'User-Agent': 'tgz-box',
+      ...(this.token ? { 'Authorization': `Bearer ${this.token}` } : this.registryResolver?.getAuthHeaders(url)),
+      ...headers
+    };
+  }
+
+  private markFailed(result: PublishResult, tarball: StoredTarball, error: string): void {
+    result.failed.push({ ...tarball, error });
+    this.progress.failed++;
+    this.updateProgress();
+  }
+
+  private updateProgress() {
+    if (this.onProgress) {
+      this.onProgress({ ...this.progress });
+    }
+  }
+}
+
+/**
+ * 生成发布失败的报告文件，格式与failed-packages.json保持一致
+ */
+export async function generateFailedUploadsJson(failed: FailedUpload[], registry: string, outputPath: string): Promise<void> {
+  if (failed.length === 0) {
+    return;
+  }
+
+  const failedUploadData = {
+    name: 'failed-uploads',
+    version: '1.0.0',
+    description: 'Packages that could not be published to the target registry',
+    registry,
+    dependencies: {} as Record<string, string>,
+    failedPackages: failed.map(item => ({
+      name: item.name,
+      version: item.version,
+      tarball: item.tarballPath,
+      error: item.error
+    }))
+  };
+
+  failed.forEach(item => {
+    failedUploadData.dependencies[item.name] = item.version;
+  });
+
+  await fs.writeJSON(outputPath, failedUploadData, { spaces: 2 });
+  console.log(`\n发布失败信息已保存到: ${outputPath}`);
+  console.log(`包含 ${failed.length} 个发布失败的版本`);
+}
+
+// npm registry中scope包的 / 需要编码
+function encodePackageName(name: string): string {
+  return encodeURIComponent(name).replace(/^%40/, '@');
+}
+
+function formatPublishError(error: any): string {
+  const status = error?.response?.status;
+  const reason = error?.response?.data?.error || error?.response?.data?.message || error?.message || String(error);
+  return status ? `${status} ${reason}` : reason;
+}
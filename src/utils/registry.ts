@@ -0,0 +1,193 @@
+import { NpmrcConfig } from './npmrc';
+import { RegistryCredentials } from './auth';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
+export interface TarballCandidate {
+  url: string;
+  // 提供该地址的registry，用于统计和获取packument
+  registry: string;
+}
+
+/**
+ * 根据包的scope选择registry
+ * 默认registry优先级：--registry参数 > 配置文件 > .npmrc > npm官方registry
+ */
+export class RegistryResolver {
+  readonly defaultRegistry: string;
+  readonly credentials: RegistryCredentials;
+  // 按顺序尝试的备用镜像，默认registry失败（404/5xx/网络错误）时使用
+  readonly mirrors: string[];
+  private scopeRegistries = new Map<string, string>();
+
+  constructor(
+    defaultRegistry: string = DEFAULT_REGISTRY,
+    scopeRegistries: Record<string, string> = {},
+    credentials: RegistryCredentials = new RegistryCredentials(),
+    mirrors: string[] = []
+  ) {
+    this.defaultRegistry = normalizeRegistry(defaultRegistry);
+    this.credentials = credentials;
+    this.mirrors = mirrors.map(normalizeRegistry);
+    Object.entries(scopeRegistries).forEach(([scope, registry]) => {
+      this.scopeRegistries.set(scope, normalizeRegistry(registry));
+    });
+  }
+
+  /**
+   * 从.npmrc创建，读取registry、@scope:registry 和按registry配置的凭据
+   * @param registry 显式指定的默认registry，优先于.npmrc
+   * @param mirrors 配置文件中的备用镜像
+   */
+  static fromNpmrc(npmrc: NpmrcConfig, registry?: string, mirrors: string[] = []): RegistryResolver {
+    const scopeRegistries: Record<string, string> = {};
+    Object.entries(npmrc.values).forEach(([key, value]) => {
+      const match = key.match(/^(@[^:]+):registry$/);
+      if (match && value) {
+        scopeRegistries[match[1]] = value;
+      }
+    });
+    // 顶层凭据只属于.npmrc中的registry，--registry切换到其他地址时不会携带
+    const credentials = RegistryCredentials.fromNpmrc(npmrc, npmrc.values.registry || DEFAULT_REGISTRY);
+    return new RegistryResolver(registry || npmrc.values.registry || DEFAULT_REGISTRY, scopeRegistries, credentials, mirrors);
+  }
+
+  /**
+   * 获取包所属scope对应的registry，以 / 结尾
+   */
+  getRegistry(name: string): string {
+    const scope = name.startsWith('@') ? name.split('/')[0] : null;
+    return (scope && this.scopeRegistries.get(scope)) || this.defaultRegistry;
+  }
+
+  /**
+   * 获取请求地址对应的认证头，地址不属于任何已配置凭据的registry时返回空对象
+   */
+  getAuthHeaders(url: string): Record<string, string> {
+    return this.credentials.getAuthHeaders(url);
+  }
+
+  getScopeRegistries(): Record<string, string> {
+    return Object.fromEntries(this.scopeRegistries);
+  }
+
+  /**
+   * 获取包可以使用的registry，按尝试顺序排列
+   * 配置了scope registry的包只使用该registry，避免私有包名被发送到公共镜像
+   */
+  getRegistryChain(name: string): string[] {
+    const scope = name.startsWith('@') ? name.split('/')[0] : null;
+    const scopeRegistry = scope && this.scopeRegistries.get(scope);
+    if (scopeRegistry) {
+      return [scopeRegistry];
+    }
+    return Array.from(new Set([this.defaultRegistry, ...this.mirrors]));
+  }
+
+  /**
+   * 获取tgz的下载地址，lock文件中的地址优先，失败时依次使用registry和备用镜像
+   * 只有registry格式的地址（<registry>/<name>/-/<file>）才会切换镜像
+   */
+  getTarballCandidates(pkg: { name: string; version: string; resolved: string }): TarballCandidate[] {
+    const candidates: TarballCandidate[] = [{ url: pkg.resolved, registry: getRegistryFromTarballUrl(pkg.resolved, pkg.name) }];
+    if (!pkg.resolved.includes('/-/')) {
+      return candidates;
+    }
+
+    this.getRegistryChain(pkg.name).forEach(registry => {
+      const url = buildTarballUrl(registry, pkg.name, pkg.version);
+      if (!candidates.some(candidate => candidate.url === url)) {
+        candidates.push({ url, registry });
+      }
+    });
+    return candidates;
+  }
+
+  /**
+   * 获取元数据请求的备用地址：地址属于默认registry或备用镜像时，替换为其他镜像中的相同路径
+   */
+  getMirrorUrls(url: string): string[] {
+    const chain = Array.from(new Set([this.defaultRegistry, ...this.mirrors]));
+    const base = chain
+      .filter(registry => url.startsWith(registry))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!base || chain.length < 2) {
+      return [];
+    }
+
+    const rest = url.slice(base.length);
+    const scope = rest.startsWith('@') ? decodeURIComponent(rest).split('/')[0] : null;
+    if (scope && this.scopeRegistries.has(scope)) {
+      return [];
+    }
+    return chain.filter(registry => registry !== base).map(registry => `${registry}${rest}`);
+  }
+
+  /**
+   * 获取包的packument地址
+   */
+  getPackumentUrl(name: string): string {
+    return buildPackumentUrl(this.getRegistry(name), name);
+  }
+
+  /**
+   * 获取指定版本的manifest地址
+   */
+  getVersionUrl(name: string, version: string): string {
+    return `${this.getPackumentUrl(name)}/${encodeURIComponent(version)}`;
+  }
+
+  /**
+   * 按包所属scope的registry拼接tgz下载地址
+   */
+  getTarballUrl(name: string, version: string): string {
+    return buildTarballUrl(this.getRegistry(name), name, version);
+  }
+}
+
+/**
+ * 根据registry拼接tgz下载地址
+ */
+export function buildTarballUrl(registry: string, name: string, version: string): string {
+  return `${registry.replace(/\/$/, '')}/${name}/-/${name.split('/').pop()}-${version}.tgz`;
+}
+
+/**
+ * 根据registry拼接packument地址
+ */
+export function buildPackumentUrl(registry: string, name: string): string {
+  return `${normalizeRegistry(registry)}${encodePackageName(name)}`;
+}
+
+/**
+ * 判断请求错误是否应该切换到下一个镜像：404、5xx或没有响应的网络错误
+ */
+export function shouldTryNextMirror(error: any): boolean {
+  const status = error?.statusCode ?? error?.response?.status;
+  if (status !== undefined) {
+    return status === 404 || status >= 500;
+  }
+  return error?.name !== 'IntegrityError';
+}
+
+// registry格式的tgz地址取 /<name>/-/ 之前的部分，其他地址取origin
+function getRegistryFromTarballUrl(url: string, name: string): string {
+  const index = url.indexOf(`/${name}/-/`);
+  if (index !== -1) {
+    return normalizeRegistry(url.slice(0, index));
+  }
+  try {
+    return `${new URL(url).origin}/`;
+  } catch {
+    return url;
+  }
+}
+
+export function normalizeRegistry(registry: string): string {
+  return registry.endsWith('/') ? registry : `${registry}/`;
+}
+
+// scope包的 / 需要编码，与npm客户端请求packument的方式一致
+function encodePackageName(name: string): string {
+  return encodeURIComponent(name).replace(/^%40/, '@');
+}
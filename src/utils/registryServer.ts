@@ -0,0 +1,197 @@
+import fs from 'fs-extra';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { pipeline } from 'stream';
+import semver from 'semver';
+import { StoredPackage, scanStoredPackages } from './packageStore';
+
+export interface RegistryServerOptions {
+  directory: string;
+  host: string;
+  port: number;
+  onRequest?: (method: string, url: string, status: number) => void;
+}
+
+/**
+ * 基于packages目录的只读离线registry
+ * 只返回本地实际存在tgz文件的版本，tarball地址改写为当前服务地址
+ */
+export class RegistryServer {
+  private options: RegistryServerOptions;
+  private packages = new Map<string, StoredPackage>();
+  private server?: http.Server;
+
+  constructor(options: RegistryServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 扫描packages目录，返回可提供的包数量
+   */
+  async load(): Promise<number> {
+    this.packages = await scanStoredPackages(this.options.directory);
+    return this.packages.size;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.send(req, res, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    return `http://${this.options.host}:${this.options.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+
+    // npm install时会调用audit接口，离线环境直接返回空结果
+    if (pathname.startsWith('/-/npm/v1/security/')) {
+      return this.send(req, res, 200, {});
+    }
+
+    if (pathname === '/-/ping') {
+      return this.send(req, res, 200, {});
+    }
+
+    if (method !== 'GET' && method !== 'HEAD') {
+      return this.send(req, res, 405, { error: 'method not allowed' });
+    }
+
+    // tarball请求: /<name>/-/<file>.tgz
+    const tarballIndex = pathname.indexOf('/-/');
+    if (tarballIndex > 0) {
+      const name = pathname.slice(1, tarballIndex);
+      const fileName = pathname.slice(tarballIndex + 3);
+      return this.sendTarball(req, res, name, fileName);
+    }
+
+    // packument请求: /<name> 或 /@scope/name，也支持 /<name>/<version>
+    const segments = pathname.slice(1).split('/').filter(Boolean);
+    const nameLength = segments[0]?.startsWith('@') ? 2 : 1;
+    const name = segments.slice(0, nameLength).join('/');
+    const versionOrTag = segments[nameLength];
+
+    const packument = name ? this.buildPackument(name, this.getBaseUrl(req)) : null;
+    if (!packument) {
+      return this.send(req, res, 404, { error: 'not found' });
+    }
+
+    if (versionOrTag) {
+      const version = packument['dist-tags'][versionOrTag] || versionOrTag;
+      const manifest = packument.versions[version];
+      return manifest
+        ? this.send(req, res, 200, manifest)
+        : this.send(req, res, 404, { error: 'version not found' });
+    }
+
+    return this.send(req, res, 200, packument);
+  }
+
+  /**
+   * 构建只包含本地已有版本的packument
+   */
+  private buildPackument(name: string, baseUrl: string): any | null {
+    const storedPackage = this.packages.get(name);
+    if (!storedPackage || storedPackage.tarballs.size === 0) {
+      return null;
+    }
+
+    const { packument, tarballs } = storedPackage;
+    const versions: Record<string, any> = {};
+    const time: Record<string, string> = {};
+
+    tarballs.forEach((tarball, version) => {
+      const manifest = packument.versions?.[version];
+      if (!manifest) {
+        return;
+      }
+      versions[version] = {
+        ...manifest,
+        dist: {
+          ...manifest.dist,
+          tarball: `${baseUrl}/${name}/-/${encodeURIComponent(tarball.fileName)}`
+        }
+      };
+      if (packument.time?.[version]) {
+        time[version] = packument.time[version];
+      }
+    });
+
+    const availableVersions = Object.keys(versions);
+    if (availableVersions.length === 0) {
+      return null;
+    }
+
+    // 只保留指向本地已有版本的dist-tags，latest缺失时使用最高的正式版本
+    const distTags: Record<string, string> = {};
+    Object.entries<string>(packument['dist-tags'] || {}).forEach(([tag, version]) => {
+      if (versions[version]) {
+        distTags[tag] = version;
+      }
+    });
+    if (!distTags.latest) {
+      const stableVersions = availableVersions.filter(version => !semver.prerelease(version));
+      distTags.latest = semver.rsort(stableVersions.length > 0 ? stableVersions : availableVersions)[0];
+    }
+
+    const { _rev, _attachments, ...rest } = packument;
+    return {
+      ...rest,
+      'dist-tags': distTags,
+      versions,
+      time: { ...(packument.time?.created ? { created: packument.time.created } : {}), ...time }
+    };
+  }
+
+  private async sendTarball(req: IncomingMessage, res: ServerResponse, name: string, fileName: string): Promise<void> {
+    const storedPackage = this.packages.get(name);
+    const tarball = storedPackage
+      ? Array.from(storedPackage.tarballs.values()).find(item => item.fileName === fileName)
+      : undefined;
+
+    if (!tarball || !await fs.pathExists(tarball.tarballPath)) {
+      return this.send(req, res, 404, { error: 'tarball not found' });
+    }
+
+    const stat = await fs.stat(tarball.tarballPath);
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': stat.size
+    });
+    this.options.onRequest?.(req.method || 'GET', req.url || '', 200);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    // 读取失败或客户端断开时pipeline会销毁两端的流，响应头已发送，客户端通过连接中断感知错误
+    pipeline(fs.createReadStream(tarball.tarballPath), res, () => {});
+  }
+
+  private send(req: IncomingMessage, res: ServerResponse, status: number, body: any): void {
+    const content = JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(content)
+    });
+    res.end(req.method === 'HEAD' ? undefined : content);
+    this.options.onRequest?.(req.method || 'GET', req.url || '', status);
+  }
+
+  private getBaseUrl(req: IncomingMessage): string {
+    return `http://${req.headers.host || `${this.options.host}:${this.options.port}`}`;
+  }
+}
@@ -0,0 +1,96 @@
+export interface RewriteRule {
+  from: string;
+  to: string;
+  // 为true时from是正则表达式，to中可以使用 $1 等分组引用
+  regex?: boolean;
+}
+
+export interface RewriteConfig {
+  // 解析lock文件后、下载之前应用于resolved地址
+  rules: RewriteRule[];
+  // 生成输出lock文件时应用于rules改写后的地址，未配置时使用rules中前缀规则的反向规则
+  reverse: RewriteRule[];
+}
+
+// lock文件中的http(s)地址，适用于各种格式的lock文件
+const URL_PATTERN = /https?:\/\/[^\s"',]+/g;
+
+/**
+ * 按规则改写下载地址，使用第一条匹配的规则
+ */
+export class UrlRewriter {
+  private rules: RewriteRule[];
+
+  constructor(rules: RewriteRule[] = []) {
+    rules.forEach(validateRewriteRule);
+    this.rules = rules;
+  }
+
+  /**
+   * 根据配置创建输出lock文件使用的反向改写器
+   * 正则规则无法自动反向，需要在reverse中单独配置
+   */
+  static reverseOf(config: RewriteConfig): UrlRewriter {
+    if (config.reverse.length > 0) {
+      return new UrlRewriter(config.reverse);
+    }
+    return new UrlRewriter(config.rules
+      .filter(rule => !rule.regex)
+      .map(rule => ({ from: rule.to, to: rule.from })));
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  rewrite(url: string): string {
+    for (const rule of this.rules) {
+      if (rule.regex) {
+        const pattern = new RegExp(rule.from);
+        if (pattern.test(url)) {
+          return url.replace(pattern, rule.to);
+        }
+      } else if (url.startsWith(rule.from)) {
+        return `${rule.to}${url.slice(rule.from.length)}`;
+      }
+    }
+    return url;
+  }
+
+  /**
+   * 改写文本中的所有http(s)地址，适用于各种格式的lock文件
+   */
+  rewriteText(content: string): string {
+    if (this.rules.length === 0) {
+      return content;
+    }
+    return content.replace(URL_PATTERN, url => this.rewrite(url));
+  }
+}
+
+/**
+ * 生成离线端使用的lock文件内容：每个地址先按rules改写（即实际下载的地址），再按reverse改写
+ * 未配置reverse时只还原被rules改写过的地址，原本就指向rules目标地址的条目保持不变
+ */
+export function rewriteOutputLockfile(content: string, config: RewriteConfig): string {
+  const forward = new UrlRewriter(config.rules);
+  const reverse = UrlRewriter.reverseOf(config);
+  const explicitReverse = config.reverse.length > 0;
+  return content.replace(URL_PATTERN, url => {
+    const downloaded = forward.rewrite(url);
+    return explicitReverse || downloaded !== url ? reverse.rewrite(downloaded) : url;
+  });
+}
+
+export function validateRewriteRule(rule: RewriteRule): void {
+  if (!rule || typeof rule.from !== 'string' || !rule.from || typeof rule.to !== 'string') {
+    throw new Error(`改写规则必须包含from和to字符串: ${JSON.stringify(rule)}`);
+  }
+  if (rule.regex) {
+    try {
+      new RegExp(rule.from);
+    } catch (error) {
+      throw new Error(`改写规则的正则表达式无效: ${rule.from} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import path from 'path';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+import { PackageItem } from '../types';
+import { getLocalSourcePath, parseGitSource } from './packageSource';
+import { maskSecrets } from './auth';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 将git依赖或本地依赖打包为tgz，返回tgz文件路径
+ * 本地tgz文件直接返回原路径
+ * @param workDir 临时目录，用于clone仓库和存放打包结果
+ */
+export async function packLocalSource(pkg: PackageItem, workDir: string): Promise<string> {
+  await fs.ensureDir(workDir);
+
+  if (pkg.source === 'git') {
+    const checkoutDir = path.join(workDir, 'checkout');
+    await checkoutGitSource(pkg.resolved, checkoutDir);
+    return packDirectory(checkoutDir, workDir);
+  }
+
+  const localPath = getLocalSourcePath(pkg);
+  const stat = await fs.stat(localPath).catch(() => null);
+  if (!stat) {
+    throw new Error(`本地依赖不存在: ${localPath}`);
+  }
+  return stat.isDirectory() ? packDirectory(localPath, workDir) : localPath;
+}
+
+/**
+ * clone仓库并切换到lock文件中锁定的提交，支持本地和远程的git地址
+ */
+async function checkoutGitSource(specifier: string, checkoutDir: string): Promise<void> {
+  const { url, commit } = parseGitSource(specifier);
+  await fs.remove(checkoutDir);
+  try {
+    await execFileAsync('git', ['clone', '--quiet', '--', url, checkoutDir], { env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } });
+    if (commit) {
+      await execFileAsync('git', ['checkout', '--quiet', commit], { cwd: checkoutDir });
+    }
+  } catch (error: any) {
+    const message = String(error?.stderr || error?.message || error).trim();
+    throw new Error(maskSecrets(`获取git依赖失败 ${url}${commit ? `#${commit}` : ''}: ${message}`));
+  }
+}
+
+/**
+ * 使用npm pack打包目录，与发布到registry的文件内容一致（遵循files和.npmignore）
+ * 不执行prepare等脚本，需要构建的git依赖应先在仓库中提交构建产物
+ */
+async function packDirectory(directory: string, destination: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(
+      'npm',
+      ['pack', '--json', '--ignore-scripts', '--pack-destination', destination],
+      { cwd: directory, maxBuffer: 64 * 1024 * 1024 }
+    );
+    const [result] = JSON.parse(stdout);
+    return path.join(destination, result.filename);
+  } catch (error: any) {
+    const message = String(error?.stderr || error?.message || error).trim();
+    throw new Error(`打包失败 ${directory}: ${message}`);
+  }
+}
+
+/**
+ * 读取tgz中顶层目录下的package.json
+ * npm打包的顶层目录为package，GitHub codeload等地址的顶层目录为 <repo>-<sha>
+ */
+export async function readTarballManifest(tarballPath: string): Promise<any> {
+  const extract = tar.extract();
+  const input = fs.createReadStream(tarballPath).pipe(zlib.createGunzip());
+  input.on('error', error => extract.destroy(error));
+  input.pipe(extract as unknown as NodeJS.WritableStream);
+
+  for await (const entry of extract) {
+    if (entry.header.type === 'file' && /^[^/]+\/package\.json$/.test(entry.header.name)) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of entry) {
+        chunks.push(chunk as Buffer);
+      }
+      input.destroy();
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    }
+    entry.resume();
+  }
+
+  throw new Error(`tgz中没有package.json: ${tarballPath}`);
+}
+
+/**
+ * 根据tgz中的package.json生成packument，合并到已有的packument中
+ * 非registry依赖无法从registry获取元数据，离线registry和check使用这里生成的信息
+ */
+export function createLocalPackument(
+  manifest: any,
+  dist: { integrity: string; shasum?: string; tarball: string },
+  resolved: string,
+  existing?: any
+): any {
+  const base = existing && existing.name === manifest.name && existing.versions ? existing : {
+    name: manifest.name,
+    'dist-tags': {},
+    versions: {},
+    time: {}
+  };
+
+  return {
+    ...base,
+    'dist-tags': { latest: manifest.version, ...base['dist-tags'] },
+    versions: {
+      ...base.versions,
+      [manifest.version]: {
+        ...manifest,
+        _resolved: maskSecrets(resolved),
+        dist
+      }
+    },
+    time: { ...base.time, [manifest.version]: new Date().toISOString() }
+  };
+}
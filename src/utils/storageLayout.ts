@@ -0,0 +1,249 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { PackageItem } from '../types';
+import { PACKAGE_MANIFEST_NAME, PackageManifest } from './packageManifest';
+
+export const STORAGE_LAYOUTS = ['nested', 'flat', 'content'] as const;
+
+export type StorageLayout = typeof STORAGE_LAYOUTS[number];
+
+export const NESTED_VIEWS = ['none', 'hardlinks', 'index'] as const;
+
+export type NestedView = typeof NESTED_VIEWS[number];
+
+export interface LayoutConfig {
+  // nested: 按lock文件中的路径保存；flat: <name>/<version>/；content: 按sha512保存在 _content/ 中
+  type: StorageLayout;
+  // flat和content布局额外生成的嵌套视图：hardlinks为 _nested/<lock路径>/ 中的硬链接，index为 _nested.json
+  nested: NestedView;
+}
+
+export const DEFAULT_LAYOUT: LayoutConfig = { type: 'nested', nested: 'none' };
+
+// 以 _ 开头的名称不是合法的npm包名，不会与包目录冲突
+export const CONTENT_DIR = '_content';
+export const NESTED_VIEW_DIR = '_nested';
+export const NESTED_INDEX_FILE = '_nested.json';
+// integrity不同的同名同版本包，按lock路径保存在 _variants/<variant>/ 中，与布局无关
+export const VARIANTS_DIR = '_variants';
+
+export interface NestedIndexEntry {
+  name: string;
+  version: string;
+  // 相对packages目录的路径，使用 / 分隔
+  tarball: string;
+  packument: string;
+}
+
+export interface NestedIndexFile {
+  formatVersion: number;
+  layout: StorageLayout;
+  updatedAt: string;
+  // 键为lock文件中的包路径，如 a/node_modules/ms
+  packages: Record<string, NestedIndexEntry[]>;
+}
+
+/**
+ * 包在下载、来源记录和失败缓存中的键，variant包与同版本的其他包分开
+ */
+export function getPackageKey(pkg: Pick<PackageItem, 'name' | 'version' | 'variant'>): string {
+  return `${pkg.name}@${pkg.version}${pkg.variant ? `#${pkg.variant}` : ''}`;
+}
+
+/**
+ * 遍历packages目录时跳过的条目：内容目录、嵌套视图和variant包
+ */
+export function isReservedEntry(name: string): boolean {
+  return name.startsWith('_');
+}
+
+export function validateLayout(layout: Partial<LayoutConfig>): void {
+  if (layout.type !== undefined && !STORAGE_LAYOUTS.includes(layout.type)) {
+    throw new Error(`未知的存储布局: ${layout.type}（可用: ${STORAGE_LAYOUTS.join(', ')}）`);
+  }
+  if (layout.nested !== undefined && !NESTED_VIEWS.includes(layout.nested)) {
+    throw new Error(`未知的嵌套视图: ${layout.nested}（可用: ${NESTED_VIEWS.join(', ')}）`);
+  }
+}
+
+/**
+ * 确定输出目录使用的布局：目录中已有包时沿用manifest.json中记录的布局（没有记录时为nested）
+ * 指定的布局与已有布局不同时报错，嵌套视图可以随时更改
+ */
+export async function resolveLayout(directory: string, manifest: PackageManifest, requested: Partial<LayoutConfig> = {}): Promise<LayoutConfig> {
+  validateLayout(requested);
+  const stored = manifest.getLayout();
+  const hasPackages = manifest.size > 0
+    || (await fs.pathExists(directory) && (await fs.readdir(directory)).some(item => item !== PACKAGE_MANIFEST_NAME));
+  const base = stored || (hasPackages ? DEFAULT_LAYOUT : { ...DEFAULT_LAYOUT, ...requested });
+
+  if (requested.type && requested.type !== base.type) {
+    throw new Error(`${directory} 已使用 ${base.type} 布局保存，不能改为 ${requested.type}，请使用新的输出目录`);
+  }
+  return { type: base.type, nested: requested.nested || base.nested };
+}
+
+/**
+ * packument的保存位置：nested布局在lock路径下，其他布局在包名目录下
+ */
+export function getPackumentPath(layout: StorageLayout, pkg: Pick<PackageItem, 'name' | 'path' | 'variant'>): string {
+  if (pkg.variant) {
+    return path.join(VARIANTS_DIR, pkg.variant, pkg.path, 'package.json');
+  }
+  return path.join(layout === 'nested' ? pkg.path : pkg.name, 'package.json');
+}
+
+/**
+ * tgz文件的保存位置，content布局需要tgz文件的sha512
+ */
+export function getTarballPath(layout: StorageLayout, pkg: Pick<PackageItem, 'name' | 'version' | 'path' | 'variant'>, fileName: string, integrity?: string): string {
+  if (pkg.variant) {
+    return path.join(VARIANTS_DIR, pkg.variant, pkg.path, fileName);
+  }
+  switch (layout) {
+    case 'nested':
+      return path.join(pkg.path, fileName);
+    case 'flat':
+      return path.join(pkg.name, pkg.version, fileName);
+    case 'content':
+      if (!integrity?.startsWith('sha512-')) {
+        throw new Error(`content布局需要tgz文件的sha512: ${pkg.name}@${pkg.version}`);
+      }
+      return getContentPath(integrity);
+  }
+}
+
+/**
+ * content布局中的文件路径：_content/sha512/<前两位>/<十六进制哈希>.tgz
+ */
+export function getContentPath(integrity: string): string {
+  const hex = Buffer.from(integrity.slice('sha512-'.length), 'base64').toString('hex');
+  return path.join(CONTENT_DIR, 'sha512', hex.slice(0, 2), `${hex}.tgz`);
+}
+
+/**
+ * 查找已保存的tgz文件，content布局按 name@version 从manifest.json中查找
+ */
+export async function findStoredTarball(
+  directory: string,
+  layout: StorageLayout,
+  manifest: PackageManifest | undefined,
+  pkg: PackageItem,
+  fileName: string
+): Promise<string | undefined> {
+  let tarballPath: string | undefined;
+  if (layout === 'content' && !pkg.variant) {
+    const entry = manifest?.findVersion(pkg.name, pkg.version);
+    tarballPath = entry && path.join(directory, entry.path);
+  } else {
+    tarballPath = path.join(directory, getTarballPath(layout, pkg, fileName));
+  }
+  return tarballPath && await fs.pathExists(tarballPath) ? tarballPath : undefined;
+}
+
+/**
+ * flat和content布局的嵌套视图，兼容依赖 <lock路径>/package.json 和tgz文件的工具
+ * hardlinks在 _nested/<lock路径>/ 中创建硬链接，index将lock路径到实际文件的映射写入 _nested.json
+ */
+export class NestedViewWriter {
+  private index: NestedIndexFile['packages'] = {};
+  private dirty = false;
+
+  private constructor(private directory: string, private layout: LayoutConfig) {}
+
+  static async load(directory: string, layout: LayoutConfig): Promise<NestedViewWriter> {
+    const writer = new NestedViewWriter(directory, layout);
+    const indexPath = path.join(directory, NESTED_INDEX_FILE);
+    if (writer.mode === 'index' && await fs.pathExists(indexPath)) {
+      try {
+        writer.index = (await fs.readJSON(indexPath)).packages || {};
+      } catch {
+        throw new Error(`读取嵌套视图索引失败: ${indexPath}`);
+      }
+    }
+    return writer;
+  }
+
+  private get mode(): NestedView {
+    return this.layout.type === 'nested' ? 'none' : this.layout.nested;
+  }
+
+  /**
+   * 记录一个lock路径对应的文件，同一路径下的同一版本只记录一次
+   * @param fileName nested布局中的tgz文件名
+   */
+  async add(pkg: PackageItem, fileName: string, tarballPath: string, packumentPath: string): Promise<void> {
+    // variant包与同一lock路径的其他项目的包冲突，不加入视图
+    if (pkg.variant) {
+      return;
+    }
+    if (this.mode === 'hardlinks') {
+      const viewDir = path.join(this.directory, NESTED_VIEW_DIR, pkg.path);
+      await linkFile(tarballPath, path.join(viewDir, fileName));
+      await linkFile(packumentPath, path.join(viewDir, 'package.json'));
+    } else if (this.mode === 'index') {
+      const key = pkg.path.split(path.sep).join('/');
+      const entry: NestedIndexEntry = {
+        name: pkg.name,
+        version: pkg.version,
+        tarball: toRelative(this.directory, tarballPath),
+        packument: toRelative(this.directory, packumentPath)
+      };
+      const entries = (this.index[key] || []).filter(existing => existing.version !== pkg.version);
+      this.index[key] = [...entries, entry];
+      this.dirty = true;
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const packages: NestedIndexFile['packages'] = {};
+    Object.keys(this.index).sort().forEach(key => { packages[key] = this.index[key]; });
+    const data: NestedIndexFile = {
+      formatVersion: 1,
+      layout: this.layout.type,
+      updatedAt: new Date().toISOString(),
+      packages
+    };
+    const indexPath = path.join(this.directory, NESTED_INDEX_FILE);
+    this.dirty = false;
+    try {
+      await fs.writeJSON(`${indexPath}.partial`, data, { spaces: 2 });
+      await fs.move(`${indexPath}.partial`, indexPath, { overwrite: true });
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
+  }
+}
+
+/**
+ * 创建硬链接，已指向同一文件时跳过；文件系统不支持硬链接时复制文件
+ */
+async function linkFile(source: string, target: string): Promise<void> {
+  await fs.ensureDir(path.dirname(target));
+  const targetStat = await fs.stat(target).catch(() => undefined);
+  if (targetStat) {
+    const sourceStat = await fs.stat(source);
+    if (sourceStat.ino === targetStat.ino && sourceStat.dev === targetStat.dev) {
+      return;
+    }
+    await fs.remove(target);
+  }
+
+  try {
+    await fs.link(source, target);
+  } catch (error: any) {
+    // 并发下载同一路径的其他版本时，packument可能已被链接
+    if (error?.code !== 'EEXIST') {
+      await fs.copy(source, target);
+    }
+  }
+}
+
+function toRelative(directory: string, filePath: string): string {
+  return path.relative(directory, filePath).split(path.sep).join('/');
+}
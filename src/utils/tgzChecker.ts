@@ -4,12 +4,24 @@ import chalk from 'chalk';
 import ora from 'ora';
 import axios from 'axios';
 import semver from 'semver';
-import { execSync } from 'child_process';
 import { PackageDownloader } from './downloader';
 import { PackageItem } from '../types';
 import { TEMP_DIR } from './constants';
+import { classifySource } from './packageSource';
+import { PackageVersions, describeVersionPolicy, getPackumentVersions, resolveVersionPolicy, selectVersions } from './versionPolicy';
 import { ensureDirectoryExists } from './fileUtils';
 import { networkOptimizer } from './networkOptimizer';
+import { RegistryResolver } from './registry';
+import { maskSecrets } from './auth';
+import { createNetworkAgents } from './proxy';
+import { Inventory } from './inventory';
+import { ManifestVerifyResult, PackageManifest, verifyPackageManifest } from './packageManifest';
+import { DEFAULT_CONFIG, TgzBoxConfig, getVersionPolicyConfig } from './config';
+import { matchesFilters } from './glob';
+import { TargetPlatform, matchesAnyPlatform, printPlatformSkipReport } from './platform';
+import { DownloadPlan } from './downloadPlan';
+import { PackageStore, findPackageTarballs, loadPackageStore } from './packageStore';
+import { isReservedEntry } from './storageLayout';
 
 interface CheckResult {
   code: number; // -1: error, 0: warning, 1: success
@@ -26,20 +38,40 @@ interface PackageIntegrity {
 
 
 
+export interface TgzCheckOptions {
+  // 离线端已有包的清单，下载major版本时跳过清单中已有的版本
+  inventory?: Inventory;
+  // 来源项目，记录到packages/manifest.json中
+  source?: string;
+  // 并发数、重试、major版本和过滤规则等配置
+  config?: TgzBoxConfig;
+  // 按包的scope选择registry，未指定时使用配置中的registry
+  registryResolver?: RegistryResolver;
+  // 按 --omit 跳过的包，不参与额外版本下载
+  omittedPackages?: Set<string>;
+  // 目标平台，不支持任何目标平台的额外版本不下载
+  platforms?: TargetPlatform[];
+  // dry-run：版本策略选出的版本只加入下载计划，不下载
+  plan?: DownloadPlan;
+}
+
 interface CheckSummary {
   totalPackages: number;
   incompletePackages: PackageIntegrity[];
   downloadedVersions: string[];
   errors: string[];
+  // packages/manifest.json的校验结果，没有清单时为空
+  manifest?: ManifestVerifyResult;
 }
 
 /**
  * 检查指定目录中的npm包完整性和版本匹配
  * @param directory 要检查的目录路径（通常是packages目录）
  * @param downloadMissingVersions 是否下载缺失的版本
+ * @param options 下载相关的选项
  * @returns 检查结果摘要
  */
-export async function checkTgzFiles(directory: string, downloadMissingVersions = false): Promise<CheckSummary> {
+export async function checkTgzFiles(directory: string, downloadMissingVersions = false, options: TgzCheckOptions = {}): Promise<CheckSummary> {
   const summary: CheckSummary = {
     totalPackages: 0,
     incompletePackages: [],
@@ -50,7 +82,7 @@ export async function checkTgzFiles(directory: string, downloadMissingVersions =
   try {
     // 统一扫描：一次性获取所有包的信息
     const packageInfoMap = new Map<string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }>();
-    await scanAllPackages(directory, packageInfoMap, summary);
+    await scanAllPackages(directory, packageInfoMap, summary, await loadPackageStore(directory));
     
     // 检查文件完整性
     packageInfoMap.forEach((info, packageName) => {
@@ -78,10 +110,17 @@ export async function checkTgzFiles(directory: string, downloadMissingVersions =
       console.log(chalk.green('\n✅ 所有依赖文件完整'));
     }
     
+    // 使用manifest.json校验tgz文件
+    if (await PackageManifest.exists(directory)) {
+      summary.manifest = await checkAgainstManifest(directory);
+    } else {
+      console.log(chalk.gray(`未找到 ${path.join(directory, 'manifest.json')}，跳过清单校验`));
+    }
+    
     // 下载每个包的major版本（如果需要）
     if (downloadMissingVersions && packageInfoMap.size > 0) {
-      console.log(chalk.blue(`\n🔄 开始下载依赖的所有major最高版本...`));
-      await downloadMajorVersionsOptimized(packageInfoMap, summary);
+      console.log(chalk.blue(`\n🔄 开始按版本策略下载额外版本...`));
+      await downloadMajorVersionsOptimized(packageInfoMap, summary, directory, options);
     }
     
     return summary;
@@ -93,12 +132,75 @@ export async function checkTgzFiles(directory: string, downloadMissingVersions =
 }
 
 /**
- * 统一扫描所有包的信息（完整性和版本信息）
+ * dry-run：计算版本策略在输出目录中会下载的版本并加入下载计划
+ * 输出目录中已有的包和即将下载的registry包都参与计算，与实际下载后的自动检查一致
+ * @param packages 本次要下载的包
+ */
+export async function planPolicyVersions(directory: string, packages: PackageItem[], options: TgzCheckOptions & { plan: DownloadPlan }): Promise<string[]> {
+  const summary: CheckSummary = {
+    totalPackages: 0,
+    incompletePackages: [],
+    downloadedVersions: [],
+    errors: []
+  };
+  
+  const packageInfoMap = new Map<string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }>();
+  if (await fs.pathExists(directory)) {
+    await scanAllPackages(directory, packageInfoMap, summary, await loadPackageStore(directory));
+  }
+  packages.filter(pkg => (pkg.source || 'registry') === 'registry' && !packageInfoMap.has(pkg.name)).forEach(pkg => {
+    packageInfoMap.set(pkg.name, {
+      currentVersion: pkg.version,
+      packagePath: path.join(directory, pkg.path),
+      hasPackageJson: false,
+      hasTgzFile: false
+    });
+  });
+  
+  if (packageInfoMap.size > 0) {
+    console.log(chalk.blue(`\n🔄 计算版本策略选出的额外版本...`));
+    await downloadMajorVersionsOptimized(packageInfoMap, summary, directory, options);
+  }
+  return summary.errors;
+}
+
+/**
+ * 使用manifest.json校验tgz文件，报告缺失、被修改和清单之外的文件
+ */
+async function checkAgainstManifest(directory: string): Promise<ManifestVerifyResult> {
+  const spinner = ora('正在根据manifest.json校验tgz文件...').start();
+  const result = await verifyPackageManifest(directory, (completed, total) => {
+    spinner.text = `正在根据manifest.json校验tgz文件: ${completed}/${total}`;
+  });
+  spinner.stop();
+
+  if (result.missing.length === 0 && result.modified.length === 0 && result.unexpected.length === 0) {
+    console.log(chalk.green(`✅ 清单校验通过，共 ${result.total} 个tgz文件`));
+    return result;
+  }
+
+  console.log(chalk.yellow(`\n⚠️  清单校验发现问题（清单共 ${result.total} 个tgz文件）`));
+  result.missing.forEach(entry => {
+    console.log(chalk.red(`  缺失: ${entry.path} (${entry.name}@${entry.version})`));
+  });
+  result.modified.forEach(entry => {
+    console.log(chalk.red(`  已修改: ${entry.path} (${entry.name}@${entry.version})`));
+  });
+  result.unexpected.forEach(relativePath => {
+    console.log(chalk.yellow(`  清单之外: ${relativePath}`));
+  });
+
+  return result;
+}
+
+/**
+ * 统一扫描所有包的信息（完整性和版本信息），tgz文件按packages目录的存储布局查找
  */
 async function scanAllPackages(
   directory: string, 
   packageInfoMap: Map<string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }>,
-  summary: CheckSummary
+  summary: CheckSummary,
+  store: PackageStore
 ): Promise<void> {
   const items = await fs.readdir(directory);
   
@@ -107,7 +209,9 @@ async function scanAllPackages(
     const stat = await fs.lstat(fullPath);
     
     if (stat.isDirectory()) {
-      await scanAllPackages(fullPath, packageInfoMap, summary);
+      if (!isReservedEntry(item)) {
+        await scanAllPackages(fullPath, packageInfoMap, summary, store);
+      }
     } else if (item === 'package.json') {
       const packageDir = path.dirname(fullPath);
       const packageName = await getPackageNameFromJson(fullPath);
@@ -117,10 +221,8 @@ async function scanAllPackages(
         summary.totalPackages++;
         
         // 检查文件完整性
-        const contents = await fs.readdir(packageDir);
         const hasPackageJson = await fs.pathExists(fullPath);
-        const tgzFiles = contents.filter(file => path.extname(file) === '.tgz');
-        const hasTgzFile = tgzFiles.length > 0;
+        const hasTgzFile = await hasStoredTarball(store, packageDir);
         
         // 避免重复添加同一个包
         if (!packageInfoMap.has(packageName)) {
@@ -139,13 +241,11 @@ async function scanAllPackages(
 /**
  * 检查单个包的完整性
  */
-async function checkSinglePackageIntegrity(packageName: string, packageDir: string): Promise<PackageIntegrity> {
+async function checkSinglePackageIntegrity(packageName: string, packageDir: string, store: PackageStore): Promise<PackageIntegrity> {
   const packageJsonPath = path.join(packageDir, 'package.json');
-  const contents = await fs.readdir(packageDir);
   
   const hasPackageJson = await fs.pathExists(packageJsonPath);
-  const tgzFiles = contents.filter(file => path.extname(file) === '.tgz');
-  const hasTgzFile = tgzFiles.length > 0;
+  const hasTgzFile = await hasStoredTarball(store, packageDir);
   
   const missingFiles: string[] = [];
   if (!hasPackageJson) missingFiles.push('package.json');
@@ -160,6 +260,14 @@ async function checkSinglePackageIntegrity(packageName: string, packageDir: stri
   };
 }
 
+/**
+ * 包目录中的packument是否至少有一个版本保存了tgz文件
+ */
+async function hasStoredTarball(store: PackageStore, packageDir: string): Promise<boolean> {
+  const packument = await fs.readJSON(path.join(packageDir, 'package.json')).catch(() => null);
+  return packument ? (await findPackageTarballs(store, packageDir, packument)).length > 0 : false;
+}
+
 
 
 /**
@@ -167,26 +275,46 @@ async function checkSinglePackageIntegrity(packageName: string, packageDir: stri
  */
 async function downloadMajorVersionsOptimized(
   packageInfoMap: Map<string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }>,
-  summary: CheckSummary
+  summary: CheckSummary,
+  directory: string,
+  options: TgzCheckOptions = {}
 ): Promise<void> {
-  const totalPackages = packageInfoMap.size;
+  const config = options.config || DEFAULT_CONFIG;
+  const registryResolver = options.registryResolver || new RegistryResolver(config.registry);
+  
+  // 按配置中的include/exclude过滤需要处理的包
+  const policyConfig = getVersionPolicyConfig(config);
+  const policyRules = Object.keys(policyConfig.packages).length;
+  console.log(chalk.gray(`📐 版本策略: ${describeVersionPolicy(policyConfig.default)}${policyRules > 0 ? `，另有 ${policyRules} 条按包名的规则` : ''}`));
+  
+  // git、本地目录等非registry依赖在registry中没有其他版本，不参与额外版本下载
+  // locked-only策略的包不需要获取版本信息
+  const packageEntries: Array<[string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }]> = [];
+  for (const [packageName, info] of packageInfoMap.entries()) {
+    if (matchesFilters(packageName, config.filters)
+      && !options.omittedPackages?.has(packageName)
+      && resolveVersionPolicy(policyConfig, packageName).policy !== 'locked-only'
+      && !await isLocalSourcePackage(info.packagePath)) {
+      packageEntries.push([packageName, info]);
+    }
+  }
+  const totalPackages = packageEntries.length;
   
   // 第一步：批量获取版本信息
   console.log(chalk.blue(`\n📡 正在获取 ${totalPackages} 个包的版本信息...`));
   
-  const packageVersionsMap = new Map<string, { allVersions: string[], currentVersion: string, packagePath: string }>();
+  const packageVersionsMap = new Map<string, { allVersions: PackageVersions, currentVersion: string, packagePath: string }>();
   let completedCount = 0;
   
   // 优化：尝试从本地批量读取，失败的再从网络获取
-  const packageEntries = Array.from(packageInfoMap.entries());
-  const localResults = new Map<string, string[]>();
+  const localResults = new Map<string, PackageVersions>();
   const needNetworkFetch: Array<[string, { currentVersion: string, packagePath: string }]> = [];
   
   // 首先尝试从本地 package.json 的 versions 字段获取版本信息
   for (const [packageName, info] of packageEntries) {
     try {
       const localVersions = await getPackageAllVersionsFromLocal(packageName, path.dirname(info.packagePath));
-      if (localVersions && localVersions.length > 0) {
+      if (localVersions && localVersions.versions.length > 0) {
         localResults.set(packageName, localVersions);
         packageVersionsMap.set(packageName, {
           allVersions: localVersions,
@@ -214,13 +342,10 @@ async function downloadMajorVersionsOptimized(
   if (needNetworkFetch.length > 0) {
     
     // 构建批量请求URL
-    const registry = getNpmRegistry();
-    const urls = needNetworkFetch.map(([packageName]) => 
-      `${registry.replace(/\/$/, '')}/${packageName}`
-    );
+    const urls = needNetworkFetch.map(([packageName]) => registryResolver.getPackumentUrl(packageName));
     
     // 使用网络优化器进行批量请求
-    const batchResults = await networkOptimizer.batchGet(urls, 15); // 降低并发数提高稳定性
+    const batchResults = await networkOptimizer.batchGet(urls, config.concurrency.metadata);
     
     // 处理批量结果
     batchResults.forEach((result, index) => {
@@ -232,10 +357,7 @@ async function downloadMajorVersionsOptimized(
       
       if (result.data && !result.error) {
         try {
-          const versions = Object.keys(result.data.versions || {});
-          const allVersions = versions
-            .filter(version => semver.valid(version))
-            .sort((a, b) => semver.compare(a, b));
+          const allVersions = getPackumentVersions(result.data);
           
           packageVersionsMap.set(packageName, { 
             allVersions, 
@@ -263,6 +385,8 @@ async function downloadMajorVersionsOptimized(
   // 第二步：计算需要下载的版本
   
   const packagesToDownload: PackageItem[] = [];
+  const platformSkipped: PackageItem[] = [];
+  const platforms = options.platforms || [];
   let processedCount = 0;
   const totalVersionPackages = packageVersionsMap.size;
   
@@ -270,7 +394,7 @@ async function downloadMajorVersionsOptimized(
   let analysisSpinner = ora('正在分析需要下载的版本...').start();
   
   packageVersionsMap.forEach(({ allVersions, currentVersion, packagePath }, packageName) => {
-    const latestVersionsPerMajor = getLatestVersionsPerMajor(allVersions, currentVersion);
+    const policyVersions = selectVersions(allVersions, resolveVersionPolicy(policyConfig, packageName), currentVersion);
     
     // 创建一个Set来避免重复版本
     const versionsToDownload = new Set<string>();
@@ -278,12 +402,20 @@ async function downloadMajorVersionsOptimized(
     // 1. 添加指定版本（当前版本）
     versionsToDownload.add(currentVersion);
     
-    // 2. 添加每个major版本的最新版本
-    latestVersionsPerMajor.forEach(version => {
+    // 2. 添加版本策略选出的版本
+    policyVersions.forEach(version => {
       versionsToDownload.add(version);
     });
     
-    const finalVersions = Array.from(versionsToDownload).sort((a, b) => semver.compare(a, b));
+    // 3. 跳过不支持任何目标平台的版本，packument中的当前版本是latest，不一定是已下载的版本
+    const finalVersions = Array.from(versionsToDownload).sort((a, b) => semver.compare(a, b)).filter(version => {
+      const constraints = allVersions.platforms.get(version) || {};
+      if (matchesAnyPlatform(constraints, platforms)) {
+        return true;
+      }
+      platformSkipped.push({ name: packageName, version, resolved: registryResolver.getTarballUrl(packageName, version), path: '', ...constraints });
+      return false;
+    });
     
 
     
@@ -292,7 +424,7 @@ async function downloadMajorVersionsOptimized(
         name: packageName,
         version: version,
         resolved: '', // 稍后获取
-        path: path.relative(path.resolve('./packages'), packagePath)
+        path: path.relative(directory, packagePath)
       });
     });
     
@@ -306,6 +438,15 @@ async function downloadMajorVersionsOptimized(
   // 停止分析spinner并显示完成信息
   analysisSpinner.stop();
   console.log(chalk.green(`✅ 分析完成，共需要下载 ${packagesToDownload.length} 个版本`));
+  await printPlatformSkipReport(platformSkipped, platforms, '额外版本');
+  
+  if (options.plan) {
+    for (const pkg of packagesToDownload) {
+      await options.plan.add({ ...pkg, resolved: registryResolver.getTarballUrl(pkg.name, pkg.version) }, 'policy');
+    }
+    packageVersionsMap.forEach(({ allVersions }, packageName) => options.plan!.addKnownSizes(packageName, allVersions.sizes));
+    return;
+  }
   
   if (packagesToDownload.length === 0) {
     console.log(chalk.yellow('没有需要下载的版本'));
@@ -313,10 +454,16 @@ async function downloadMajorVersionsOptimized(
   }
   
   // 第三步：批量获取下载链接并下载
-  console.log(chalk.blue('📦 开始下载major版本依赖...'));
-  
-  const concurrency = 8; // 降低并发数提高稳定性
-  const downloader = new PackageDownloader(concurrency);
+  console.log(chalk.blue('📦 开始下载版本策略选出的版本...'));
+  
+  const downloader = new PackageDownloader(config.concurrency.check, {
+    inventory: options.inventory,
+    source: options.source,
+    outputDir: directory,
+    maxRetries: config.retries.download,
+    timeout: config.timeouts.download,
+    registryResolver
+  });
   
   // 使用spinner显示下载进度
   let currentSpinner: any;
@@ -343,10 +490,7 @@ async function downloadMajorVersionsOptimized(
   
   try {
     // 使用网络优化器批量获取下载链接
-    const registry = getNpmRegistry();
-    const versionUrls = packagesToDownload.map(pkg => 
-      `${registry.replace(/\/$/, '')}/${pkg.name}/${pkg.version}`
-    );
+    const versionUrls = packagesToDownload.map(pkg => registryResolver.getVersionUrl(pkg.name, pkg.version));
     
     console.log(chalk.blue(`🔗 批量获取 ${versionUrls.length} 个下载链接...`));
     
@@ -356,7 +500,7 @@ async function downloadMajorVersionsOptimized(
       console.log(chalk.gray(`   网络状态: ${networkStatus.speed} | 并发数: ${networkStatus.concurrency} | 平均响应: ${networkStatus.avgTime}ms`));
     }
     
-    const linkResults = await networkOptimizer.batchGet(versionUrls, 15); // 降低并发数提高稳定性
+    const linkResults = await networkOptimizer.batchGet(versionUrls, config.concurrency.metadata);
     
     const packagesWithUrls: PackageItem[] = [];
     
@@ -426,23 +570,31 @@ async function downloadMajorVersionsOptimized(
   }
 }
 
+/**
+ * 判断包是否只包含非registry来源的版本（packument由tgz中的package.json生成）
+ */
+async function isLocalSourcePackage(packageDir: string): Promise<boolean> {
+  try {
+    const packument = await fs.readJSON(path.join(packageDir, 'package.json'));
+    const versions = Object.values(packument.versions || {}) as any[];
+    return versions.length > 0 && versions.every(version =>
+      typeof version._resolved === 'string' && classifySource(version._resolved) !== 'registry');
+  } catch {
+    return false;
+  }
+}
+
 /**
  * 从本地package.json获取包的所有版本
  */
-async function getPackageAllVersionsFromLocal(packageName: string, packagesDir: string): Promise<string[] | null> {
+async function getPackageAllVersionsFromLocal(packageName: string, packagesDir: string): Promise<PackageVersions | null> {
   try {
     const packageJsonPath = path.join(packagesDir, packageName, 'package.json');
     if (!await fs.pathExists(packageJsonPath)) {
       return null;
     }
     
-    const packageContent = await fs.readJSON(packageJsonPath);
-    const versions = Object.keys(packageContent.versions || {});
-    
-    // 使用semver进行排序
-    return versions
-      .filter(version => semver.valid(version))
-      .sort((a, b) => semver.compare(a, b));
+    return getPackumentVersions(await fs.readJSON(packageJsonPath));
   } catch (error) {
     return null;
   }
@@ -451,25 +603,29 @@ async function getPackageAllVersionsFromLocal(packageName: string, packagesDir:
 /**
  * 获取包的所有版本信息并进行语义化版本排序（优先从本地读取，失败时从npm源获取）
  */
-async function getPackageAllVersions(packageName: string, packagesDir?: string): Promise<string[]> {
+async function getPackageAllVersions(packageName: string, registryResolver: RegistryResolver, packagesDir?: string): Promise<string[]> {
   // 优先从本地读取
   if (packagesDir) {
     const localVersions = await getPackageAllVersionsFromLocal(packageName, packagesDir);
-    if (localVersions && localVersions.length > 0) {
-      return localVersions;
+    if (localVersions && localVersions.versions.length > 0) {
+      return localVersions.versions;
     }
   }
   
   // 本地读取失败时从npm源获取
   try {
-    const registry = getNpmRegistry();
-    const registryUrl = `${registry.replace(/\/$/, '')}/${packageName}`;
+    const registryUrl = registryResolver.getPackumentUrl(packageName);
     // 根据网络环境调整超时时间
     const timeout = process.env.NODE_ENV === 'production' ? 30000 : 20000;
+    const agents = createNetworkAgents();
     const response = await axios.get(registryUrl, {
       timeout,
+      httpAgent: agents.http,
+      httpsAgent: agents.https,
+      proxy: false,
       headers: {
-        'User-Agent': 'tgz-box'
+        'User-Agent': 'tgz-box',
+        ...registryResolver.getAuthHeaders(registryUrl)
       }
     });
     
@@ -480,71 +636,27 @@ async function getPackageAllVersions(packageName: string, packagesDir?: string):
       .filter(version => semver.valid(version))
       .sort((a, b) => semver.compare(a, b));
   } catch (error) {
-    throw new Error(`获取 ${packageName} 版本信息失败: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-/**
- * 获取每个major版本的最新版本
- */
-function getLatestVersionsPerMajor(versions: string[], currentVersion?: string): string[] {
-  const majorGroups = new Map<number, string[]>();
-  
-  // 按major版本分组
-  versions.forEach(version => {
-    const match = version.match(/^(\d+)\.(\d+)\.(\d+)/);
-    if (match) {
-      const major = parseInt(match[1]);
-      if (!majorGroups.has(major)) {
-        majorGroups.set(major, []);
-      }
-      majorGroups.get(major)!.push(version);
-    }
-  });
-  
-  // 获取每个major版本的最新版本
-  const latestVersions: string[] = [];
-  majorGroups.forEach((versionList, major) => {
-    // 使用semver进行正确的版本排序，获取最新的
-    const sortedVersions = versionList
-      .filter(version => semver.valid(version)) // 只保留有效的semver版本
-      .sort((a, b) => semver.rcompare(a, b)); // 降序排序，最新版本在前
-    
-    const latestInMajor = sortedVersions[0];
-    // 排除当前已指定的版本
-    if (currentVersion !== latestInMajor) {
-      latestVersions.push(latestInMajor);
-    }
-  });
-  
-  return latestVersions;
-}
-
-/**
- * 获取当前npm配置的registry地址
- */
-function getNpmRegistry(): string {
-  try {
-    const registry = execSync('npm config get registry', { encoding: 'utf8' }).trim();
-    return registry || 'https://registry.npmjs.org/';
-  } catch (error) {
-    return 'https://registry.npmjs.org/';
+    throw new Error(maskSecrets(`获取 ${packageName} 版本信息失败: ${error instanceof Error ? error.message : String(error)}`));
   }
 }
 
 /**
  * 获取包的下载URL
  */
-async function getPackageDownloadUrl(packageName: string, version: string): Promise<string | null> {
+async function getPackageDownloadUrl(packageName: string, version: string, registryResolver: RegistryResolver): Promise<string | null> {
   try {
-    const registry = getNpmRegistry();
-    const registryUrl = `${registry.replace(/\/$/, '')}/${packageName}/${version}`;
+    const registryUrl = registryResolver.getVersionUrl(packageName, version);
     // 根据网络环境调整超时时间
     const timeout = process.env.NODE_ENV === 'production' ? 20000 : 15000;
+    const agents = createNetworkAgents();
     const response = await axios.get(registryUrl, {
       timeout,
+      httpAgent: agents.http,
+      httpsAgent: agents.https,
+      proxy: false,
       headers: {
-        'User-Agent': 'tgz-box'
+        'User-Agent': 'tgz-box',
+        ...registryResolver.getAuthHeaders(registryUrl)
       }
     });
     
@@ -610,7 +722,12 @@ function getVersionFromFileName(fileName: string): string | null {
 /**
  * 检查单个包的tgz文件（保持向后兼容）
  */
-export async function checkSinglePackage(packageName: string, directory: string, downloadMissingVersion = false): Promise<CheckResult> {
+export async function checkSinglePackage(
+  packageName: string,
+  directory: string,
+  downloadMissingVersion = false,
+  options: TgzCheckOptions = {}
+): Promise<CheckResult> {
   const packagePath = path.join(directory, packageName);
   
   if (!await fs.pathExists(packagePath)) {
@@ -621,7 +738,8 @@ export async function checkSinglePackage(packageName: string, directory: string,
   }
   
   // 检查完整性
-  const integrity = await checkSinglePackageIntegrity(packageName, packagePath);
+  const store = await loadPackageStore(directory);
+  const integrity = await checkSinglePackageIntegrity(packageName, packagePath, store);
   
   if (!integrity.hasPackageJson || !integrity.hasTgzFile) {
     return {
@@ -630,7 +748,7 @@ export async function checkSinglePackage(packageName: string, directory: string,
     };
   }
   
-  // 如果需要下载major版本
+  // 如果需要按版本策略下载额外版本
   if (downloadMissingVersion) {
     // 创建临时summary
     const summary: CheckSummary = {
@@ -642,15 +760,15 @@ export async function checkSinglePackage(packageName: string, directory: string,
     
     // 扫描单个包的信息
     const packageInfoMap = new Map<string, { currentVersion: string, packagePath: string, hasPackageJson: boolean, hasTgzFile: boolean }>();
-    await scanAllPackages(packagePath, packageInfoMap, summary);
+    await scanAllPackages(packagePath, packageInfoMap, summary, store);
     
-    // 下载major版本
-    await downloadMajorVersionsOptimized(packageInfoMap, summary);
+    // 按版本策略下载
+    await downloadMajorVersionsOptimized(packageInfoMap, summary, directory, options);
     
     if (summary.downloadedVersions.length > 0) {
       return {
         code: 1,
-        message: `已下载major版本: ${summary.downloadedVersions.join(', ')}`
+        message: `已按版本策略下载: ${summary.downloadedVersions.join(', ')}`
       };
     }
   }
@@ -670,6 +788,12 @@ export function printCheckSummary(summary: CheckSummary): void {
   console.log(chalk.white(`文件不完整: ${summary.incompletePackages.length}`));
   console.log(chalk.white(`已下载版本: ${summary.downloadedVersions.length}`));
   
+  if (summary.manifest) {
+    console.log(chalk.white(`清单缺失: ${summary.manifest.missing.length}`));
+    console.log(chalk.white(`清单已修改: ${summary.manifest.modified.length}`));
+    console.log(chalk.white(`清单之外: ${summary.manifest.unexpected.length}`));
+  }
+  
   // 只显示非下载相关的错误
   const nonDownloadErrors = summary.errors.filter(error => 
     !error.includes('下载失败') && 
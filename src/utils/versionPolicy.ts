@@ -0,0 +1,166 @@
+import semver from 'semver';
+import { matchesGlob } from './glob';
+import { PlatformConstraints, getPlatformConstraints, hasPlatformConstraints } from './platform';
+
+export const VERSION_POLICY_NAMES = ['locked-only', 'latest-per-major', 'latest-per-minor', 'last-N-majors', 'semver-range'] as const;
+
+export type VersionPolicyName = typeof VERSION_POLICY_NAMES[number];
+
+export interface VersionPolicy {
+  policy: VersionPolicyName;
+  // last-N-majors：保留最新的几个major
+  majors?: number;
+  // semver-range：下载满足该范围的所有版本
+  range?: string;
+  // 未设置时使用默认策略的设置
+  includePrerelease?: boolean;
+  includeDeprecated?: boolean;
+}
+
+// 配置文件中可以直接写策略名，如 "locked-only"、"last-3-majors"
+export type VersionPolicyInput = VersionPolicy | string;
+
+export interface VersionPolicyConfig {
+  default: VersionPolicyInput;
+  // 按包名通配符指定策略，按书写顺序使用第一条匹配的规则
+  packages: Record<string, VersionPolicyInput>;
+}
+
+export interface PackageVersions {
+  // 有效的semver版本，从低到高排序
+  versions: string[];
+  deprecated: Set<string>;
+  // 声明了os/cpu/libc的版本及其平台限制
+  platforms: Map<string, PlatformConstraints>;
+  // 各版本的dist.unpackedSize，用于dry-run估算大小
+  sizes: Map<string, number>;
+}
+
+/**
+ * 从packument中提取版本列表、已废弃的版本、各版本的平台限制和大小
+ */
+export function getPackumentVersions(packument: any): PackageVersions {
+  const entries = Object.entries(packument?.versions || {}) as Array<[string, any]>;
+  return {
+    versions: entries
+      .map(([version]) => version)
+      .filter(version => semver.valid(version))
+      .sort((a, b) => semver.compare(a, b)),
+    deprecated: new Set(entries.filter(([, manifest]) => manifest?.deprecated).map(([version]) => version)),
+    platforms: new Map(entries
+      .map(([version, manifest]) => [version, getPlatformConstraints(manifest)] as [string, PlatformConstraints])
+      .filter(([, constraints]) => hasPlatformConstraints(constraints))),
+    sizes: new Map(entries
+      .filter(([, manifest]) => typeof manifest?.dist?.unpackedSize === 'number')
+      .map(([version, manifest]) => [version, manifest.dist.unpackedSize] as [string, number]))
+  };
+}
+
+/**
+ * 获取包使用的版本策略，未设置的开关继承默认策略
+ */
+export function resolveVersionPolicy(config: VersionPolicyConfig, packageName: string): VersionPolicy {
+  const base = normalizeVersionPolicy(config.default);
+  const matched = Object.entries(config.packages).find(([pattern]) => matchesGlob(packageName, [pattern]));
+  const policy = matched ? normalizeVersionPolicy(matched[1]) : base;
+  return {
+    ...policy,
+    includePrerelease: policy.includePrerelease ?? base.includePrerelease ?? true,
+    includeDeprecated: policy.includeDeprecated ?? base.includeDeprecated ?? true
+  };
+}
+
+/**
+ * 按策略从所有版本中选出需要额外下载的版本，不包含当前锁定的版本
+ */
+export function selectVersions(packageVersions: PackageVersions, policy: VersionPolicy, currentVersion?: string): string[] {
+  const candidates = packageVersions.versions.filter(version =>
+    (policy.includePrerelease !== false || !semver.prerelease(version))
+    && (policy.includeDeprecated !== false || !packageVersions.deprecated.has(version)));
+
+  let selected: string[];
+  switch (policy.policy) {
+    case 'locked-only':
+      selected = [];
+      break;
+    case 'latest-per-major':
+      selected = latestPerGroup(candidates, version => `${semver.major(version)}`);
+      break;
+    case 'latest-per-minor':
+      selected = latestPerGroup(candidates, version => `${semver.major(version)}.${semver.minor(version)}`);
+      break;
+    case 'last-N-majors': {
+      const majors = Array.from(new Set(candidates.map(version => semver.major(version))))
+        .sort((a, b) => b - a)
+        .slice(0, policy.majors);
+      selected = latestPerGroup(candidates.filter(version => majors.includes(semver.major(version))), version => `${semver.major(version)}`);
+      break;
+    }
+    case 'semver-range':
+      selected = candidates.filter(version =>
+        semver.satisfies(version, policy.range!, { includePrerelease: policy.includePrerelease !== false }));
+      break;
+  }
+
+  return selected.filter(version => version !== currentVersion);
+}
+
+/**
+ * 将策略名或策略对象转换为统一格式并校验
+ */
+export function normalizeVersionPolicy(input: VersionPolicyInput): VersionPolicy {
+  let policy: VersionPolicy;
+  if (typeof input === 'string') {
+    const lastMajors = input.match(/^last-(\d+)-majors$/);
+    policy = lastMajors
+      ? { policy: 'last-N-majors', majors: parseInt(lastMajors[1], 10) }
+      : { policy: input as VersionPolicyName };
+  } else if (input && typeof input === 'object') {
+    policy = input;
+  } else {
+    throw new Error(`版本策略必须是策略名或对象: ${JSON.stringify(input)}`);
+  }
+
+  if (!VERSION_POLICY_NAMES.includes(policy.policy)) {
+    throw new Error(`未知的版本策略: ${policy.policy}（可用: ${VERSION_POLICY_NAMES.join(', ')}）`);
+  }
+  if (policy.policy === 'last-N-majors' && (!Number.isInteger(policy.majors) || policy.majors! <= 0)) {
+    throw new Error(`last-N-majors 策略的 majors 必须是正整数: ${policy.majors}`);
+  }
+  if (policy.policy === 'semver-range' && (typeof policy.range !== 'string' || !semver.validRange(policy.range))) {
+    throw new Error(`semver-range 策略的 range 无效: ${policy.range}`);
+  }
+  (['includePrerelease', 'includeDeprecated'] as const).forEach(key => {
+    if (policy[key] !== undefined && typeof policy[key] !== 'boolean') {
+      throw new Error(`版本策略的 ${key} 必须是布尔值: ${policy[key]}`);
+    }
+  });
+  return policy;
+}
+
+/**
+ * 策略的简短描述，用于日志和交互提示
+ */
+export function describeVersionPolicy(input: VersionPolicyInput): string {
+  const policy = normalizeVersionPolicy(input);
+  const detail = policy.policy === 'last-N-majors'
+    ? `last-${policy.majors}-majors`
+    : policy.policy === 'semver-range' ? `semver-range ${policy.range}` : policy.policy;
+  const flags = [
+    policy.includePrerelease === false && '不含预发布版本',
+    policy.includeDeprecated === false && '不含已废弃版本'
+  ].filter(Boolean);
+  return flags.length > 0 ? `${detail}（${flags.join('，')}）` : detail;
+}
+
+function latestPerGroup(versions: string[], getGroup: (version: string) => string): string[] {
+  const latest = new Map<string, string>();
+  versions.forEach(version => {
+    const group = getGroup(version);
+    const existing = latest.get(group);
+    if (!existing || semver.gt(version, existing)) {
+      latest.set(group, version);
+    }
+  });
+  return Array.from(latest.values()).sort((a, b) => semver.compare(a, b));
+}
@@ -0,0 +1,152 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { LockData } from '../types';
+import { matchesGlob } from './glob';
+
+type LockPackages = NonNullable<LockData['packages']>;
+
+const DEPENDENCY_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies'] as const;
+
+export interface WorkspaceInfo {
+  name: string;
+  version?: string;
+  // workspace目录，相对于lock文件所在目录，如 packages/foo
+  path: string;
+}
+
+export function getWorkspacePatterns(workspaces?: string[] | { packages?: string[] }): string[] {
+  const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages || [];
+  return patterns.map(pattern => pattern.replace(/^\.\//, '').replace(/\/$/, ''));
+}
+
+/**
+ * 读取项目及其workspace的package.json中的dependencies和devDependencies，返回 name@range 描述符
+ * Yarn v1的lock文件不记录项目自身依赖了哪些条目，用于区分项目直接依赖的包
+ */
+export function readProjectDescriptors(projectDir: string): string[] {
+  const root = readPackageJson(projectDir);
+  if (!root) {
+    return [];
+  }
+
+  const patterns = getWorkspacePatterns(root.workspaces);
+  const manifests = [root, ...findWorkspaceDirectories(projectDir, patterns).map(dir => readPackageJson(path.join(projectDir, dir)))];
+  return manifests.flatMap(manifest => (['dependencies', 'devDependencies'] as const).flatMap(field =>
+    Object.entries<string>(manifest?.[field] || {}).map(([name, range]) => `${name}@${range}`)
+  ));
+}
+
+/**
+ * 列出npm lock文件（lockfileVersion 2/3）中的workspace包
+ */
+export function listWorkspaces(lockData: LockData): WorkspaceInfo[] {
+  const packages = lockData.packages || {};
+  const patterns = getWorkspacePatterns(packages['']?.workspaces);
+  return Object.entries(packages)
+    .filter(([key]) => key !== '' && !key.includes('node_modules/') && matchesGlob(key, patterns))
+    .map(([key, entry]) => ({ name: entry.name || key.split('/').pop()!, version: entry.version, path: key }));
+}
+
+/**
+ * 计算指定workspace的依赖闭包，返回闭包中所有包的 name@version
+ * 按Node的模块查找规则，从依赖所在目录逐级向上查找node_modules中的条目
+ * workspace自身的devDependencies也会包含在内，依赖其他workspace时继续展开其依赖
+ * @param workspace workspace的包名或目录
+ */
+export function getWorkspaceClosure(lockData: LockData, workspace: string): Set<string> {
+  const packages = lockData.packages || {};
+  const workspaces = listWorkspaces(lockData);
+  const target = workspaces.find(item => item.name === workspace || item.path === workspace.replace(/^\.\//, '').replace(/\/$/, ''));
+  if (!target) {
+    const available = workspaces.map(item => item.name).join(', ') || '无';
+    throw new Error(`未找到workspace: ${workspace}（可用的workspace: ${available}）`);
+  }
+
+  const closure = new Set<string>();
+  const visited = new Set<string>();
+  const queue: Array<{ location: string; includeDev: boolean }> = [{ location: target.path, includeDev: true }];
+
+  while (queue.length > 0) {
+    const { location, includeDev } = queue.shift()!;
+    if (visited.has(location)) {
+      continue;
+    }
+    visited.add(location);
+
+    const entry = packages[location] as Record<string, any> | undefined;
+    if (!entry) {
+      continue;
+    }
+    closure.add(`${entry.name || getNameFromLocation(location)}@${entry.version || ''}`);
+
+    const fields = includeDev ? [...DEPENDENCY_FIELDS, 'devDependencies'] : DEPENDENCY_FIELDS;
+    for (const field of fields) {
+      for (const dependency of Object.keys(entry[field] || {})) {
+        const key = resolveDependencyKey(packages, location, dependency);
+        if (!key) {
+          continue;
+        }
+        // 链接到其他workspace时展开目标目录的依赖，不包含其devDependencies
+        const dependencyEntry = packages[key];
+        queue.push({ location: dependencyEntry.link ? dependencyEntry.resolved : key, includeDev: false });
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * 从依赖所在目录逐级向上查找 node_modules/<name> 条目
+ */
+export function resolveDependencyKey(packages: LockPackages, location: string, dependency: string): string | undefined {
+  const segments = location ? location.split('/') : [];
+  for (let length = segments.length; length >= 0; length--) {
+    if (segments[length - 1] === 'node_modules') {
+      continue;
+    }
+    const prefix = segments.slice(0, length).join('/');
+    const key = `${prefix ? `${prefix}/` : ''}node_modules/${dependency}`;
+    if (packages[key]) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+function getNameFromLocation(location: string): string {
+  const segments = location.split('node_modules/');
+  return segments[segments.length - 1];
+}
+
+function readPackageJson(directory: string): any {
+  try {
+    return fs.readJSONSync(path.join(directory, 'package.json'));
+  } catch {
+    return undefined;
+  }
+}
+
+// 按workspace通配符查找包含package.json的目录，跳过node_modules和隐藏目录；** 最多向下查找5层
+function findWorkspaceDirectories(projectDir: string, patterns: string[]): string[] {
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const maxDepth = Math.max(...patterns.map(pattern => pattern.includes('**') ? 5 : pattern.split('/').length));
+  const found: string[] = [];
+  const walk = (relative: string, depth: number) => {
+    if (relative && matchesGlob(relative, patterns) && fs.pathExistsSync(path.join(projectDir, relative, 'package.json'))) {
+      found.push(relative);
+    }
+    if (depth >= maxDepth) {
+      return;
+    }
+    const entries = fs.readdirSync(path.join(projectDir, relative), { withFileTypes: true });
+    entries
+      .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+      .forEach(entry => walk(relative ? `${relative}/${entry.name}` : entry.name, depth + 1));
+  };
+  walk('', 0);
+  return found;
+}
@@ -0,0 +1,64 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { AddressInfo } from 'net';
+import tar from 'tar-stream';
+import { PackageDownloader } from '../src/utils/downloader';
+import { PackageItem } from '../src/types';
+
+// 生成只包含package.json的tgz文件
+function createTarball(name: string, version: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pack = tar.pack();
+    pack.entry({ name: 'package/package.json' }, JSON.stringify({ name, version }));
+    pack.finalize();
+    const chunks: Buffer[] = [];
+    pack.pipe(zlib.createGzip())
+      .on('data', chunk => chunks.push(chunk))
+      .on('end', () => resolve(Buffer.concat(chunks)))
+      .on('error', reject);
+  });
+}
+
+test('flat布局并发保存同一个tgz地址依赖的多个版本时packument包含所有版本', async () => {
+  const versions = ['1.0.0', '1.1.0', '2.0.0', '2.1.0', '3.0.0'];
+  const tarballs = new Map<string, Buffer>();
+  for (const version of versions) {
+    tarballs.set(`/files/local-pkg-${version}.tgz`, await createTarball('local-pkg', version));
+  }
+
+  const server = http.createServer((req, res) => {
+    const tarball = tarballs.get(req.url || '');
+    res.writeHead(tarball ? 200 : 404, { 'Content-Type': 'application/octet-stream' });
+    res.end(tarball);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tgz-box-test-'));
+
+  try {
+    const packages: PackageItem[] = versions.map(version => ({
+      name: 'local-pkg',
+      version,
+      resolved: `http://127.0.0.1:${port}/files/local-pkg-${version}.tgz`,
+      path: 'local-pkg',
+      source: 'tarball'
+    }));
+    const downloader = new PackageDownloader(versions.length, { outputDir, layout: { type: 'flat' }, maxRetries: 0 });
+    const failed = await downloader.downloadPackages(packages, false);
+    assert.deepEqual(failed, []);
+
+    const packument = await fs.readJSON(path.join(outputDir, 'local-pkg', 'package.json'));
+    assert.deepEqual(Object.keys(packument.versions).sort(), versions);
+    for (const version of versions) {
+      assert.ok(await fs.pathExists(path.join(outputDir, 'local-pkg', version, `local-pkg-${version}.tgz`)));
+    }
+  } finally {
+    server.close();
+    await fs.remove(outputDir);
+  }
+});
@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseYarnLock } from '../src/utils/packageParser';
+
+const YARN_LOCK = `# yarn lockfile v1
+
+
+chokidar@^3.5.3:
+  version "3.5.3"
+  resolved "https://registry.yarnpkg.com/chokidar/-/chokidar-3.5.3.tgz"
+  optionalDependencies:
+    fsevents "~2.3.2"
+
+fsevents@~2.3.2:
+  version "2.3.3"
+  resolved "https://registry.yarnpkg.com/fsevents/-/fsevents-2.3.3.tgz"
+`;
+
+test('Yarn v1中只通过optionalDependencies引用的条目视为可选依赖', () => {
+  const packages = parseYarnLock(YARN_LOCK, false);
+  assert.equal(packages.find(pkg => pkg.name === 'fsevents')?.optional, true);
+  assert.equal(packages.find(pkg => pkg.name === 'chokidar')?.optional, undefined);
+});
+
+test('Yarn v1中项目直接依赖的条目不视为可选依赖', () => {
+  const packages = parseYarnLock(YARN_LOCK, false, ['chokidar@^3.5.3', 'fsevents@~2.3.2']);
+  assert.equal(packages.find(pkg => pkg.name === 'fsevents')?.optional, undefined);
+});
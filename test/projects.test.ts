@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { mergeProjectPackages } from '../src/utils/projects';
+import { PackageItem } from '../src/types';
+
+function digest(algorithm: string, content: string): string {
+  return `${algorithm}-${crypto.createHash(algorithm).update(content).digest('base64')}`;
+}
+
+function ms(integrity: string): PackageItem {
+  return { name: 'ms', version: '2.1.3', resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz', path: 'ms', integrity };
+}
+
+test('同一个tgz在不同lock文件中分别记录为sha1和sha512时不视为冲突', () => {
+  const result = mergeProjectPackages([
+    { project: 'npm-project', packages: [ms(digest('sha512', 'ms'))] },
+    { project: 'yarn-project', packages: [ms(digest('sha1', 'ms'))] }
+  ]);
+
+  assert.equal(result.packages.length, 1);
+  assert.deepEqual(result.conflicts, []);
+  assert.deepEqual(result.sources.get('ms@2.1.3'), ['npm-project', 'yarn-project']);
+});
+
+test('共同算法的摘要不同时作为variant单独保存并记录来源项目', () => {
+  const result = mergeProjectPackages([
+    { project: 'a', packages: [ms(digest('sha512', 'ms'))] },
+    { project: 'b', packages: [ms(digest('sha512', 'patched'))] },
+    { project: 'c', packages: [ms(digest('sha512', 'patched'))] }
+  ]);
+
+  const variant = result.packages.find(pkg => pkg.variant);
+  assert.ok(variant);
+  assert.equal(result.packages.length, 2);
+  assert.deepEqual(result.sources.get(`ms@2.1.3#${variant.variant}`), ['b', 'c']);
+  assert.deepEqual(result.conflicts.map(conflict => conflict.project), ['b', 'c']);
+});